@@ -0,0 +1,125 @@
+import { MessageChannel, MessagePort } from 'worker_threads';
+
+import EventBridge from '../src/event-bridge';
+import { EventHandler } from '../src/event-handler';
+
+describe('EventBridge', () => {
+
+  let port1: MessagePort;
+  let port2: MessagePort;
+  let left: EventHandler;
+  let right: EventHandler;
+
+  beforeEach(() => {
+    ({ port1, port2 } = new MessageChannel());
+    left = new EventHandler();
+    right = new EventHandler();
+  });
+
+  afterEach(() => {
+    port1.close();
+    port2.close();
+  });
+
+  it('mirrors dispatches to the other side', async () => {
+    new EventBridge(port1, { handler: left });
+    new EventBridge(port2, { handler: right });
+
+    const received = right.waitFor('auth.ready');
+    await left.dispatch('auth.ready', { user: 'john' }, 1);
+
+    await expect(received).resolves.toEqual([{ user: 'john' }, 1]);
+  });
+
+  it('does not post received events back', async () => {
+    const leftBridge = new EventBridge(port1, { handler: left });
+    const rightBridge = new EventBridge(port2, { handler: right });
+    const leftCallback = jest.fn();
+    left.subscribe('ping', leftCallback, 'left');
+    const post = jest.spyOn(port2, 'postMessage');
+
+    const received = right.waitFor('ping');
+    await left.dispatch('ping');
+    await received;
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(post).not.toHaveBeenCalled();
+    expect(leftCallback).toHaveBeenCalledTimes(1);
+    leftBridge.close();
+    rightBridge.close();
+  });
+
+  it('only mirrors the configured patterns', async () => {
+    const post = jest.spyOn(port1, 'postMessage');
+    new EventBridge(port1, { handler: left, events: ['auth.*', 'config.loaded'] });
+
+    await left.dispatch('auth.ready');
+    await left.dispatch('config.loaded');
+    await left.dispatch('other');
+
+    expect(post.mock.calls.map(([message]) => message.event)).toEqual(['auth.ready', 'config.loaded']);
+  });
+
+  it('posts structured clone safe payloads', async () => {
+    new EventBridge(port1, { handler: left });
+    new EventBridge(port2, { handler: right });
+    const circular: any = { name: 'loop', fn: () => null };
+    circular.self = circular;
+
+    const received = right.waitFor('data');
+    await left.dispatch('data', circular, [() => null, new Date(0)], new Error('boom'));
+    const [object, array, error] = await received;
+
+    expect(object.name).toBe('loop');
+    expect(object.fn).toBeUndefined();
+    expect(object.self).toBe(object);
+    expect(array[0]).toBeUndefined();
+    expect(array[1]).toEqual(new Date(0));
+    expect(error).toMatchObject({ name: 'Error', message: 'boom' });
+  });
+
+  it('ignores other channels and stops after close', async () => {
+    const bridge = new EventBridge(port2, { handler: right, channel: 'b' });
+    const callback = jest.fn();
+    right.subscribe('*', callback, 'right');
+
+    port1.postMessage({ channel: 'a', source: 'x', event: 'ping', data: [] });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(callback).not.toHaveBeenCalled();
+
+    bridge.close();
+    port1.postMessage({ channel: 'b', source: 'x', event: 'ping', data: [] });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(callback).not.toHaveBeenCalled();
+    expect(right.listSubscribers('ping')).toEqual(['right']);
+  });
+
+  it('keeps mirroring after a middleware blocks a received event', async () => {
+    new EventBridge(port2, { handler: right });
+    const post = jest.spyOn(port2, 'postMessage');
+    const remove = right.use(() => []);
+
+    port1.postMessage({ channel: 'dbl-utils:event-bridge', source: 'x', event: 'ping', data: [] });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    remove();
+    await right.dispatch('ping');
+
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('stays out of the introspection and the replays of its handler', async () => {
+    const post = jest.spyOn(port1, 'postMessage');
+    left.replay('auth.ready');
+    await left.dispatch('auth.ready', 'john');
+    new EventBridge(port1, { handler: left });
+
+    expect(post).not.toHaveBeenCalled();
+    expect(left.hasSubscribers('auth.ready')).toBe(false);
+    expect(left.countSubscribers('*')).toBe(0);
+    expect(left.listEvents()).toEqual([]);
+    left.subscribe('auth.*', jest.fn(), 'app');
+    expect(left.listSubscribers('auth.ready')).toEqual(['app']);
+    expect(left.listEvents()).toEqual(['auth.*']);
+  });
+
+});
@@ -1,4 +1,4 @@
-import { EventHandler } from '../src/event-handler';
+import { EventHandler, EventScope, createDebugMiddleware } from '../src/event-handler';
 
 describe('EventHandler', () => {
 
@@ -74,5 +74,535 @@ describe('EventHandler', () => {
     expect((eventHandler as any).cache.testValue).toBeUndefined();
   });
 
+  it('once only fires on the first dispatch', async () => {
+    const cb = jest.fn();
+    eventHandler.once('testEvent', cb, 'id');
+    await eventHandler.dispatch('testEvent', 'first');
+    await eventHandler.dispatch('testEvent', 'second');
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(cb).toHaveBeenCalledWith('first', 'id');
+  });
+
+  it('once removes itself from every event in the list', async () => {
+    const cb = jest.fn();
+    eventHandler.once('a, b.*', cb, 'id');
+    await eventHandler.dispatch('b.c');
+    await eventHandler.dispatch('a');
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect((eventHandler as any).patterns).toHaveLength(0);
+  });
+
+  it('once keeps other subscriptions with the same id', async () => {
+    const once = jest.fn();
+    const always = jest.fn();
+    eventHandler.subscribe('testEvent', always, 'id');
+    eventHandler.once('testEvent', once, 'id');
+    await eventHandler.dispatch('testEvent');
+    await eventHandler.dispatch('testEvent');
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(always).toHaveBeenCalledTimes(2);
+  });
+
+  it('waitFor resolves with the dispatched data', async () => {
+    const promise = eventHandler.waitFor('user.*');
+    await eventHandler.dispatch('user.login', 'john', 1);
+    await expect(promise).resolves.toEqual(['john', 1]);
+    expect((eventHandler as any).patterns).toHaveLength(0);
+  });
+
+  it('waitFor skips data rejected by the filter', async () => {
+    const promise = eventHandler.waitFor('count', { filter: n => n > 1 });
+    await eventHandler.dispatch('count', 1);
+    await eventHandler.dispatch('count', 2);
+    await expect(promise).resolves.toEqual([2]);
+  });
+
+  it('waitFor rejects on timeout', async () => {
+    jest.useFakeTimers();
+    const promise = eventHandler.waitFor('never', { timeout: 100 });
+    jest.advanceTimersByTime(100);
+    await expect(promise).rejects.toThrow('Timeout waiting for event never');
+    expect((eventHandler as any).events.never).toHaveLength(0);
+    jest.useRealTimers();
+  });
+
+  it('runs callbacks by priority', async () => {
+    const calls: string[] = [];
+    eventHandler.subscribe('save', () => calls.push('low'), 'low', { priority: -1 });
+    eventHandler.subscribe('save', () => calls.push('default'), 'default');
+    eventHandler.subscribe('save', () => calls.push('high'), 'high', { priority: 10 });
+    await eventHandler.dispatchOrdered('save');
+    expect(calls).toEqual(['high', 'default', 'low']);
+  });
+
+  it('dispatchOrdered waits for each callback in turn', async () => {
+    const calls: string[] = [];
+    eventHandler.subscribe('save', async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      calls.push('slow');
+    }, 'slow', { priority: 1 });
+    eventHandler.subscribe('save', () => calls.push('fast'), 'fast');
+    await eventHandler.dispatchOrdered('save');
+    expect(calls).toEqual(['slow', 'fast']);
+  });
+
+  it('stopPropagation halts the remaining callbacks', async () => {
+    const validator = jest.fn((doc, id, ctx) => {
+      if (!doc.valid) ctx.stopPropagation();
+      return 'checked';
+    });
+    const saver = jest.fn().mockReturnValue('saved');
+    eventHandler.subscribe('before-save', validator, 'validator', { priority: 10 });
+    eventHandler.subscribe('before-save', saver, 'saver');
+
+    const vetoed = await eventHandler.dispatchOrdered('before-save', { valid: false });
+    expect(vetoed).toEqual(['checked']);
+    expect(saver).not.toHaveBeenCalled();
+    expect(validator.mock.calls[0][2]).toMatchObject({ event: 'before-save', stopped: true });
+
+    const allowed = await eventHandler.dispatchOrdered('before-save', { valid: true });
+    expect(allowed).toEqual(['checked', 'saved']);
+  });
+
+  it('dispatchSettled reports every subscriber outcome', async () => {
+    eventHandler.subscribe('save', () => 'ok', 'good');
+    eventHandler.subscribe('save', async () => { throw new Error('boom'); }, 'bad');
+
+    const reports = await eventHandler.dispatchSettled('save');
+
+    expect(reports).toHaveLength(2);
+    expect(reports[0]).toMatchObject({ id: 'good', status: 'fulfilled', value: 'ok' });
+    expect(reports[1]).toMatchObject({ id: 'bad', status: 'rejected' });
+    expect(reports[1].error.message).toBe('boom');
+    reports.forEach(report => expect(report.duration).toBeGreaterThanOrEqual(0));
+  });
+
+  it('dispatch rejects on a failing callback without onError', async () => {
+    eventHandler.subscribe('save', () => { throw new Error('boom'); }, 'bad');
+    await expect(eventHandler.dispatch('save')).rejects.toThrow('boom');
+  });
+
+  it('onError isolates failing callbacks', async () => {
+    const onError = jest.fn();
+    eventHandler = new EventHandler({ onError });
+    const error = new Error('boom');
+    eventHandler.subscribe('save', () => { throw error; }, 'bad');
+    eventHandler.subscribe('save', () => 'ok', 'good');
+
+    await expect(eventHandler.dispatch('save', 'doc')).resolves.toEqual([undefined, 'ok']);
+    expect(onError).toHaveBeenCalledWith(error, { event: 'save', id: 'bad', data: ['doc'] });
+
+    await expect(eventHandler.dispatchOrdered('save')).resolves.toEqual([undefined, 'ok']);
+    await eventHandler.dispatchSettled('save');
+    expect(onError).toHaveBeenCalledTimes(3);
+  });
+
+  it('unsubscribeAll removes every subscription of an id', async () => {
+    const cb = jest.fn();
+    const other = jest.fn();
+    eventHandler.subscribe('a, b', cb, 'component');
+    eventHandler.subscribe('c.*', cb, 'component');
+    eventHandler.subscribe('a', other, 'other');
+    await eventHandler.dispatch('a');
+
+    eventHandler.unsubscribeAll('component');
+    await eventHandler.dispatch('a');
+    await eventHandler.dispatch('b');
+    await eventHandler.dispatch('c.d');
+
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(other).toHaveBeenCalledTimes(2);
+    expect((eventHandler as any).events.b).toBeUndefined();
+    expect((eventHandler as any).patterns).toHaveLength(0);
+  });
+
+  it('unsubscribeByPrefix removes the ids starting with a prefix', async () => {
+    const cb = jest.fn();
+    const other = jest.fn();
+    eventHandler.subscribe('a', cb, 'component-1');
+    eventHandler.subscribe('a.*', cb, 'component-2');
+    eventHandler.subscribe('a', other, 'page');
+
+    eventHandler.unsubscribeByPrefix('component-');
+    await eventHandler.dispatch('a');
+
+    expect(cb).not.toHaveBeenCalled();
+    expect(other).toHaveBeenCalledTimes(1);
+  });
+
+  it('scope namespaces its events', async () => {
+    const modal = eventHandler.scope('modal');
+    expect(modal).toBeInstanceOf(EventScope);
+    const cb = jest.fn();
+    const all = jest.fn();
+    modal.subscribe('open, close', cb, 'id');
+    modal.subscribe('*', all, 'all');
+
+    await modal.dispatch('open', 'data');
+    await eventHandler.dispatch('modal.close');
+    await eventHandler.dispatch('open');
+    await modal.dispatch('toggle');
+
+    expect(cb).toHaveBeenCalledTimes(2);
+    expect(cb).toHaveBeenCalledWith('data', 'id');
+    expect(all).toHaveBeenCalledWith('all');
+
+    const waiting = modal.waitFor('ready');
+    await modal.dispatchOrdered('ready', 1);
+    await expect(waiting).resolves.toEqual([1]);
+  });
+
+  it('scope dispose removes its subscriptions and nested scopes', async () => {
+    const outside = jest.fn();
+    const inside = jest.fn();
+    eventHandler.subscribe('modal.open', outside, 'outside');
+    const modal = eventHandler.scope('modal');
+    modal.subscribe('open', inside, 'inside');
+    modal.once('close', inside, 'inside');
+    const form = modal.scope('form');
+    form.subscribe('submit', inside, 'inside');
+
+    modal.dispose();
+    await eventHandler.dispatch('modal.open');
+    await eventHandler.dispatch('modal.close');
+    const reports = await eventHandler.dispatchSettled('modal.form.submit');
+
+    expect(inside).not.toHaveBeenCalled();
+    expect(outside).toHaveBeenCalledTimes(1);
+    expect(reports).toEqual([]);
+  });
+
+  it('reaches cached events with wildcards subscribed after a dispatch', async () => {
+    const direct = jest.fn();
+    const wildcard = jest.fn();
+    eventHandler.subscribe('user.login', direct, 'direct');
+    await eventHandler.dispatch('user.login');
+
+    eventHandler.subscribe('user.*', wildcard, 'wildcard', { priority: 1 });
+    const order: string[] = [];
+    direct.mockImplementation(() => order.push('direct'));
+    wildcard.mockImplementation(() => order.push('wildcard'));
+    await eventHandler.dispatchOrdered('user.login');
+
+    expect(wildcard).toHaveBeenCalledTimes(1);
+    expect(order).toEqual(['wildcard', 'direct']);
+  });
+
+  it('keeps wildcard subscribers when a direct event is subscribed later', async () => {
+    const wildcard = jest.fn();
+    const direct = jest.fn();
+    eventHandler.subscribe('user.*', wildcard, 'wildcard');
+    eventHandler.subscribe('user.login', direct, 'direct');
+    await eventHandler.dispatch('user.login');
+    expect(wildcard).toHaveBeenCalledTimes(1);
+    expect(direct).toHaveBeenCalledTimes(1);
+  });
+
+  it('unsubscribing a direct event keeps wildcards with the same id', async () => {
+    const direct = jest.fn();
+    const wildcard = jest.fn();
+    eventHandler.subscribe('user.login', direct, 'id');
+    eventHandler.subscribe('user.*', wildcard, 'id');
+    await eventHandler.dispatch('user.login');
+
+    eventHandler.unsubscribe('user.login', 'id');
+    await eventHandler.dispatch('user.login');
+
+    expect(direct).toHaveBeenCalledTimes(1);
+    expect(wildcard).toHaveBeenCalledTimes(2);
+  });
+
+  it('lists events and subscribers', () => {
+    eventHandler.subscribe('user.login, say', jest.fn(), 'direct');
+    eventHandler.subscribe('user.*', jest.fn(), 'wildcard', { priority: 1 });
+    eventHandler.subscribe('gone', jest.fn(), 'gone');
+    eventHandler.unsubscribe('gone', 'gone');
+
+    expect(eventHandler.listEvents()).toEqual(['user.login', 'say', 'user.*']);
+    expect(eventHandler.listSubscribers('user.login')).toEqual(['wildcard', 'direct']);
+    expect(eventHandler.listSubscribers('user.*')).toEqual(['wildcard']);
+    expect(eventHandler.listSubscribers('admin.*')).toEqual([]);
+    expect(eventHandler.countSubscribers('user.logout')).toBe(1);
+    expect(eventHandler.hasSubscribers('say')).toBe(true);
+    expect(eventHandler.hasSubscribers('gone')).toBe(false);
+  });
+
+  it('passes the context to subscribers with withContext', async () => {
+    const cb = jest.fn();
+    const plain = jest.fn();
+    eventHandler.subscribe('user.*', cb, 'id', { withContext: true });
+    eventHandler.subscribe('user.*', plain, 'plain');
+    await eventHandler.dispatch('user.login', 'john');
+    await eventHandler.dispatchSettled('user.logout');
+    expect(cb.mock.calls[0]).toEqual(['john', 'id', expect.objectContaining({ event: 'user.login' })]);
+    expect(cb.mock.calls[1]).toEqual(['id', expect.objectContaining({ event: 'user.logout' })]);
+    expect(plain).toHaveBeenCalledWith('john', 'plain');
+  });
+
+  it('replays sticky events to late subscribers', async () => {
+    eventHandler.replay('auth.ready');
+    await eventHandler.dispatch('auth.ready', 'first');
+    await eventHandler.dispatch('auth.ready', 'john');
+    await eventHandler.dispatch('auth.other', 'ignored');
+
+    const late = jest.fn();
+    eventHandler.subscribe('auth.*', late, 'late');
+    expect(late).toHaveBeenCalledTimes(1);
+    expect(late).toHaveBeenCalledWith('john', 'late');
+
+    await eventHandler.dispatch('auth.ready', 'again');
+    expect(late).toHaveBeenCalledTimes(2);
+  });
+
+  it('replays the last N payloads of wildcard rules', async () => {
+    eventHandler.replay('config.*', 2);
+    await eventHandler.dispatch('config.loaded', 1);
+    await eventHandler.dispatch('config.loaded', 2);
+    await eventHandler.dispatch('config.loaded', 3);
+    await eventHandler.dispatch('config.saved', 'saved');
+
+    const direct = jest.fn();
+    eventHandler.subscribe('config.loaded', direct, 'direct');
+    expect(direct.mock.calls).toEqual([[2, 'direct'], [3, 'direct']]);
+
+    const ready = eventHandler.waitFor('config.saved');
+    await expect(ready).resolves.toEqual(['saved']);
+
+    const once = jest.fn();
+    eventHandler.once('config.*', once, 'once');
+    expect(once).toHaveBeenCalledTimes(1);
+  });
+
+  it('clearReplay stops buffering', async () => {
+    eventHandler.replay('auth.ready');
+    await eventHandler.dispatch('auth.ready', 'john');
+    eventHandler.clearReplay('auth.ready');
+    await eventHandler.dispatch('auth.ready', 'jane');
+
+    const late = jest.fn();
+    eventHandler.subscribe('auth.ready', late, 'late');
+    expect(late).not.toHaveBeenCalled();
+  });
+
+  it('reports replay failures instead of rejecting unhandled', async () => {
+    const error = new Error('boom');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    eventHandler.replay('boot');
+    await eventHandler.dispatch('boot', 1);
+    eventHandler.subscribe('boot', () => { throw error; }, 'late');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('"late"'), error);
+    consoleError.mockRestore();
+
+    const onError = jest.fn();
+    eventHandler.onError = onError;
+    eventHandler.subscribe('boot', async () => { throw error; }, 'later');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(onError).toHaveBeenCalledWith(error, { event: 'boot', id: 'later', data: [1] });
+  });
+
+  it('runs middlewares in order before the callbacks', async () => {
+    const calls: string[] = [];
+    const cb = jest.fn(() => calls.push('callback'));
+    eventHandler.subscribe('save', cb, 'id');
+    eventHandler.use(async (context, next) => {
+      calls.push(`first ${context.mode}`);
+      const responses = await next();
+      calls.push('first done');
+      return responses;
+    });
+    eventHandler.use((context, next) => {
+      calls.push('second');
+      context.data = context.data.map(n => n * 2);
+      return next();
+    });
+
+    await expect(eventHandler.dispatch('save', 1)).resolves.toEqual([3]);
+    expect(calls).toEqual(['first dispatch', 'second', 'callback', 'first done']);
+    expect(cb).toHaveBeenCalledWith(2, 'id');
+  });
+
+  it('middlewares can block events and be removed', async () => {
+    const cb = jest.fn();
+    eventHandler.subscribe('save', cb, 'id');
+    eventHandler.replay('save');
+    const remove = eventHandler.use(context => {
+      if (!context.data[0]) return;
+      throw new Error('invalid');
+    });
+
+    await expect(eventHandler.dispatchOrdered('save', 0)).resolves.toEqual([]);
+    await expect(eventHandler.dispatchSettled('save', 0)).resolves.toEqual([]);
+    await expect(eventHandler.dispatch('save', 1)).rejects.toThrow('invalid');
+    expect(cb).not.toHaveBeenCalled();
+    expect(eventHandler.listSubscribers('save')).toEqual(['id']);
+
+    remove();
+    await eventHandler.dispatch('save', 1);
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it('debug middleware keeps a ring buffer of dispatches', async () => {
+    const log = jest.fn();
+    const debug = createDebugMiddleware({ size: 2, log });
+    eventHandler.use(debug);
+    eventHandler.subscribe('fail', () => { throw new Error('boom'); }, 'id');
+
+    await eventHandler.dispatch('a', 1);
+    await eventHandler.dispatchSettled('b', 2);
+    await expect(eventHandler.dispatch('fail')).rejects.toThrow('boom');
+
+    const entries = debug.entries();
+    expect(entries.map(({ event }) => event)).toEqual(['b', 'fail']);
+    expect(entries[0]).toMatchObject({ event: 'b', data: [2], mode: 'settled', responses: [] });
+    expect(entries[1].error.message).toBe('boom');
+    entries.forEach(entry => expect(entry.duration).toBeGreaterThanOrEqual(0));
+    expect(log).toHaveBeenCalledTimes(3);
+
+    debug.clear();
+    expect(debug.entries()).toEqual([]);
+  });
+
+  it('types payloads from an event map', async () => {
+    type AppEvents = {
+      'user.login': [name: string, admin: boolean];
+      'user.logout': [name: string];
+      'modal.open': [id: number];
+      'config.loaded': [];
+    };
+    const typed = new EventHandler<AppEvents>();
+    const names: string[] = [];
+
+    typed.subscribe('user.login', (name, admin) => names.push(admin ? name.toUpperCase() : name), 'id');
+    typed.subscribe('user.*', (...data) => names.push(data[0]), 'wildcard');
+    // only type checked
+    const invalid = () => {
+      typed.subscribe('user.*', payloads => payloads.map(data => data[0].length), 'batch', { batch: 'microtask' });
+      // @ts-expect-error the payload of user.logout is a string
+      typed.subscribe('user.logout', (name: number) => name, 'wrong');
+      // @ts-expect-error user.login needs the admin flag
+      typed.dispatch('user.login', 'john');
+      // @ts-expect-error unknown event
+      typed.dispatch('user.unknown');
+      typed.unsubscribe('user.*', 'wildcard');
+      typed.unsubscribe('user.login, modal.open', 'id');
+      // @ts-expect-error unknown event
+      typed.unsubscribe('user.logn', 'id');
+    };
+    expect(invalid).toBeInstanceOf(Function);
+
+    await typed.dispatch('user.login', 'john', true);
+
+    const waiting = typed.waitFor('config.loaded, modal.open');
+    const modal = typed.scope('modal');
+    await modal.dispatch('open', 1);
+    const payload: [] | [number] = await waiting;
+
+    expect(payload).toEqual([1]);
+    expect(names).toEqual(['JOHN', 'john']);
+  });
+
+  it('debounces callbacks', async () => {
+    jest.useFakeTimers();
+    const cb = jest.fn();
+    eventHandler.subscribe('resize', cb, 'id', { debounce: 100 });
+    await eventHandler.dispatch('resize', 1);
+    jest.advanceTimersByTime(50);
+    await eventHandler.dispatch('resize', 2);
+    jest.advanceTimersByTime(99);
+    expect(cb).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(cb).toHaveBeenCalledWith(2, 'id');
+    jest.useRealTimers();
+  });
+
+  it('throttles callbacks keeping the last dispatch', async () => {
+    jest.useFakeTimers();
+    const cb = jest.fn();
+    eventHandler.subscribe('scroll.*', cb, 'id', { throttle: 50, withContext: true });
+    await eventHandler.dispatch('scroll.y', 1);
+    await eventHandler.dispatch('scroll.y', 2);
+    await eventHandler.dispatch('scroll.y', 3);
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(cb.mock.calls[0][0]).toBe(1);
+    jest.advanceTimersByTime(50);
+    expect(cb).toHaveBeenCalledTimes(2);
+    expect(cb.mock.calls[1]).toEqual([3, 'id', expect.objectContaining({ event: 'scroll.y' })]);
+    jest.advanceTimersByTime(50);
+    await eventHandler.dispatch('scroll.y', 4);
+    expect(cb).toHaveBeenCalledTimes(3);
+    jest.useRealTimers();
+  });
+
+  it('batches payloads until the next microtask', async () => {
+    const cb = jest.fn();
+    eventHandler.subscribe('store.*', cb, 'id', { batch: 'microtask' });
+    eventHandler.dispatch('store.changed', 'a', 1);
+    eventHandler.dispatch('store.saved', 'b', 2);
+    expect(cb).not.toHaveBeenCalled();
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(cb).toHaveBeenCalledWith([['a', 1], ['b', 2]], 'id');
+  });
+
+  it('batches payloads for a time window', async () => {
+    jest.useFakeTimers();
+    const cb = jest.fn();
+    eventHandler.subscribe('tick', cb, 'id', { batch: 20 });
+    await eventHandler.dispatch('tick', 1);
+    jest.advanceTimersByTime(10);
+    await eventHandler.dispatch('tick', 2);
+    jest.advanceTimersByTime(10);
+    await eventHandler.dispatch('tick', 3);
+    jest.advanceTimersByTime(20);
+    expect(cb.mock.calls).toEqual([[[[1], [2]], 'id'], [[[3]], 'id']]);
+    jest.useRealTimers();
+  });
+
+  it('logs delayed errors without onError instead of throwing from timers', async () => {
+    jest.useFakeTimers();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const error = new Error('boom');
+    eventHandler.subscribe('resize', () => { throw error; }, 'sync', { debounce: 1 });
+    eventHandler.subscribe('resize', async () => { throw error; }, 'async', { throttle: 1 });
+    await eventHandler.dispatch('resize', 1);
+    expect(() => jest.advanceTimersByTime(1)).not.toThrow();
+    jest.useRealTimers();
+    await Promise.resolve();
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('"sync"'), error);
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('"async"'), error);
+    consoleError.mockRestore();
+  });
+
+  it('removes once subscriptions with timing options after they fire', async () => {
+    jest.useFakeTimers();
+    const cb = jest.fn();
+    eventHandler.once('resize', cb, 'id', { debounce: 10 });
+    await eventHandler.dispatch('resize', 1);
+    await eventHandler.dispatch('resize', 2);
+    jest.advanceTimersByTime(10);
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(cb).toHaveBeenCalledWith(2, 'id');
+    expect(eventHandler.hasSubscribers('resize')).toBe(false);
+    jest.useRealTimers();
+  });
+
+  it('drops delayed calls after unsubscribing and reports their errors', async () => {
+    jest.useFakeTimers();
+    const onError = jest.fn();
+    eventHandler.onError = onError;
+    const cb = jest.fn();
+    const error = new Error('boom');
+    eventHandler.subscribe('resize', cb, 'id', { debounce: 10 });
+    eventHandler.subscribe('resize', () => { throw error; }, 'bad', { debounce: 10 });
+    await eventHandler.dispatch('resize', 1);
+    eventHandler.unsubscribe('resize', 'id');
+    jest.advanceTimersByTime(10);
+    expect(cb).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(error, { event: 'resize', id: 'bad', data: [1] });
+    jest.useRealTimers();
+  });
+
 });
-
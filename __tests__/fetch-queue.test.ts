@@ -1,4 +1,5 @@
-import FetchQueue from '../src/fetch-queue';
+import { EventHandler } from '../src/event-handler';
+import FetchQueue, { FetchTimeoutError, MemoryCacheStore, WebStorageCacheStore } from '../src/fetch-queue';
 
 describe('FetchQueue', () => {
   it('deduplicates identical requests', async () => {
@@ -30,5 +31,845 @@ describe('FetchQueue', () => {
     expect(res1).toBe('one');
     expect(res2).toBe('two');
   });
-});
 
+  /**
+   * Creates a fetch mock resolving each call when `release` is called.
+   */
+  const deferredFetch = () => {
+    const pending: Array<() => void> = [];
+    const fetchMock = jest.fn((url: string) => new Promise(resolve => pending.push(() => resolve(url))));
+    const release = async () => {
+      pending.shift()?.();
+      await new Promise(resolve => setTimeout(resolve, 0));
+    };
+    return { fetchMock, release };
+  };
+
+  it('runs distinct requests serially by default', async () => {
+    const { fetchMock, release } = deferredFetch();
+    const queue = new FetchQueue(fetchMock);
+
+    const all = Promise.all([queue.addRequest('u1'), queue.addRequest('u2')]);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await release();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await release();
+    await expect(all).resolves.toEqual(['u1', 'u2']);
+  });
+
+  it('runs distinct requests in parallel up to the concurrency', async () => {
+    const { fetchMock, release } = deferredFetch();
+    const queue = new FetchQueue(fetchMock, { concurrency: 2 });
+
+    const all = Promise.all([
+      queue.addRequest('u1'),
+      queue.addRequest('u2'),
+      queue.addRequest('u1'),
+      queue.addRequest('u3')
+    ]);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['u1', 'u2']);
+    await release();
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['u1', 'u2', 'u3']);
+    await release();
+    await release();
+    await expect(all).resolves.toEqual(['u1', 'u2', 'u1', 'u3']);
+  });
+
+  it('limits the running requests per host', async () => {
+    const { fetchMock, release } = deferredFetch();
+    const queue = new FetchQueue(fetchMock, { concurrency: 10, concurrencyPerHost: 1 });
+
+    const all = Promise.all([
+      queue.addRequest('https://a.com/1'),
+      queue.addRequest('https://a.com/2'),
+      queue.addRequest('https://b.com/1')
+    ]);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://a.com/1', 'https://b.com/1']);
+    await release();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await release();
+    await release();
+    await all;
+  });
+
+  it('counts the cancelled requests of a host until their fetch settles', async () => {
+    const { fetchMock, release } = deferredFetch();
+    const queue = new FetchQueue(fetchMock, { concurrency: 10, concurrencyPerHost: 1 });
+
+    const first = queue.addRequest('https://a.com/1');
+    const second = queue.addRequest('https://a.com/2');
+    queue.cancel('https://a.com/1');
+    await expect(first).rejects.toThrow();
+    const third = queue.addRequest('https://b.com/1');
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://a.com/1', 'https://b.com/1']);
+    await release();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await release();
+    await release();
+    await expect(Promise.all([second, third])).resolves.toEqual(['https://a.com/2', 'https://b.com/1']);
+  });
+
+  it('has no global limit when only the per host limit is given', async () => {
+    const { fetchMock, release } = deferredFetch();
+    const queue = new FetchQueue(fetchMock, { concurrencyPerHost: 2 });
+
+    const all = Promise.all([
+      queue.addRequest('https://a.com/1'),
+      queue.addRequest('https://a.com/2'),
+      queue.addRequest('https://a.com/3'),
+      queue.addRequest('https://b.com/1')
+    ]);
+    expect(fetchMock.mock.calls.map(([url]) => url))
+      .toEqual(['https://a.com/1', 'https://a.com/2', 'https://b.com/1']);
+    await release();
+    await release();
+    await release();
+    await release();
+    await all;
+  });
+
+  it('rejects every waiter when the request fails and keeps going', async () => {
+    const fetchMock = jest.fn()
+      .mockRejectedValueOnce(new Error('network'))
+      .mockResolvedValueOnce('two');
+    const queue = new FetchQueue(fetchMock, { concurrency: 2 });
+
+    const failed = [queue.addRequest('u1'), queue.addRequest('u1')];
+    const ok = queue.addRequest('u2');
+
+    await expect(failed[0]).rejects.toThrow('network');
+    await expect(failed[1]).rejects.toThrow('network');
+    await expect(ok).resolves.toBe('two');
+  });
+
+  describe('retry', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    const response = (status: number, headers: Record<string, string> = {}) => ({
+      status,
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null }
+    });
+
+    it('retries retryable statuses with exponential backoff', async () => {
+      const fetchMock = jest.fn()
+        .mockResolvedValueOnce(response(503))
+        .mockResolvedValueOnce(response(503))
+        .mockResolvedValueOnce(response(200));
+      const queue = new FetchQueue(fetchMock, { retry: { baseDelay: 100, jitter: 0 } });
+
+      const p1 = queue.addRequest('u1');
+      const p2 = queue.addRequest('u1');
+      await jest.advanceTimersByTimeAsync(99);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(200);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      const [r1, r2] = await Promise.all([p1, p2]);
+      expect(r1.status).toBe(200);
+      expect(r2).toBe(r1);
+    });
+
+    it('honours the Retry-After header', async () => {
+      const fetchMock = jest.fn()
+        .mockResolvedValueOnce(response(429, { 'retry-after': '2' }))
+        .mockResolvedValueOnce(response(200));
+      const queue = new FetchQueue(fetchMock, { retry: { baseDelay: 100, jitter: 0 } });
+
+      const result = queue.addRequest('u1');
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toMatchObject({ status: 200 });
+    });
+
+    it('retries network errors and rejects once attempts run out', async () => {
+      const fetchMock = jest.fn().mockRejectedValue(new Error('network'));
+      const queue = new FetchQueue(fetchMock, { retry: { attempts: 2, baseDelay: 10, jitter: 0 } });
+
+      const result = queue.addRequest('u1');
+      const assertion = expect(result).rejects.toThrow('network');
+      await jest.advanceTimersByTimeAsync(10);
+      await assertion;
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('resolves the last response when attempts run out', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(response(500));
+      const queue = new FetchQueue(fetchMock, { retry: { attempts: 2, baseDelay: 10, jitter: 0 } });
+
+      const result = queue.addRequest('u1');
+      await jest.advanceTimersByTimeAsync(10);
+      await expect(result).resolves.toMatchObject({ status: 500 });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry other statuses or when disabled', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(response(404));
+      const queue = new FetchQueue(fetchMock, { retry: {} });
+      await expect(queue.addRequest('u1')).resolves.toMatchObject({ status: 404 });
+
+      const failing = jest.fn().mockResolvedValue(response(503));
+      await expect(new FetchQueue(failing).addRequest('u1')).resolves.toMatchObject({ status: 503 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(failing).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cache', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('serves fresh responses from the cache until the ttl expires', async () => {
+      const fetchMock = jest.fn().mockResolvedValueOnce('one').mockResolvedValueOnce('two');
+      const queue = new FetchQueue(fetchMock, { cache: { ttl: 1000 } });
+
+      await expect(queue.addRequest('u1')).resolves.toBe('one');
+      await expect(queue.addRequest('u1')).resolves.toBe('one');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1000);
+      await expect(queue.addRequest('u1')).resolves.toBe('two');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('serves stale responses while revalidating', async () => {
+      const fetchMock = jest.fn().mockResolvedValueOnce('one').mockResolvedValueOnce('two');
+      const queue = new FetchQueue(fetchMock, { cache: { ttl: 1000, staleWhileRevalidate: 1000 } });
+
+      await queue.addRequest('u1');
+      jest.advanceTimersByTime(1500);
+      await expect(queue.addRequest('u1')).resolves.toBe('one');
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await expect(queue.addRequest('u1')).resolves.toBe('two');
+    });
+
+    it('does not cache failed responses', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({ ok: false, status: 500 });
+      const queue = new FetchQueue(fetchMock, { cache: {} });
+
+      await queue.addRequest('u1');
+      await queue.addRequest('u1');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('evicts the least recently used entries', async () => {
+      const fetchMock = jest.fn((url: string) => Promise.resolve(url));
+      const store = new MemoryCacheStore();
+      const queue = new FetchQueue(fetchMock, { cache: { maxEntries: 2, store } });
+
+      await queue.addRequest('u1');
+      await queue.addRequest('u2');
+      await queue.addRequest('u1');
+      await queue.addRequest('u3');
+      expect(store.keys()).toHaveLength(2);
+
+      await queue.addRequest('u1');
+      await queue.addRequest('u2');
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['u1', 'u2', 'u3', 'u2']);
+    });
+
+    it('invalidates single requests or the whole cache', async () => {
+      const fetchMock = jest.fn((url: string) => Promise.resolve(url));
+      const queue = new FetchQueue(fetchMock, { cache: {} });
+
+      await queue.addRequest('u1');
+      await queue.addRequest('u2');
+      await queue.invalidate('u1');
+      await queue.addRequest('u1');
+      await queue.addRequest('u2');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      await queue.clearCache();
+      await queue.addRequest('u2');
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('persists entries in a web storage', async () => {
+      const data: Record<string, string> = { other: 'kept' };
+      const storage = {
+        get length() { return Object.keys(data).length; },
+        key: (i: number) => Object.keys(data)[i] ?? null,
+        getItem: (key: string) => data[key] ?? null,
+        setItem: (key: string, value: string) => { data[key] = value; },
+        removeItem: (key: string) => { delete data[key]; },
+        clear: () => undefined
+      } as Storage;
+      const fetchMock = jest.fn().mockResolvedValue({ id: 1 });
+
+      await new FetchQueue(fetchMock, { cache: { store: new WebStorageCacheStore(storage) } }).addRequest('u1');
+      const queue = new FetchQueue(fetchMock, { cache: { store: new WebStorageCacheStore(storage) } });
+      await expect(queue.addRequest('u1')).resolves.toEqual({ id: 1 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await queue.clearCache();
+      expect(Object.keys(data)).toEqual(['other']);
+    });
+
+    it('treats entries that cannot be read as misses', async () => {
+      const data: Record<string, string> = {};
+      const storage = {
+        get length() { return Object.keys(data).length; },
+        key: (i: number) => Object.keys(data)[i] ?? null,
+        getItem: (key: string) => data[key] ?? null,
+        setItem: (key: string, value: string) => { data[key] = value; },
+        removeItem: (key: string) => { delete data[key]; },
+        clear: () => undefined
+      } as Storage;
+      const fetchMock = jest.fn().mockResolvedValue({ id: 1 });
+      const queue = new FetchQueue(fetchMock, { cache: { store: new WebStorageCacheStore(storage), maxEntries: 1 } });
+
+      await queue.addRequest('u1');
+      Object.keys(data).forEach(key => { data[key] = '{'; });
+      await expect(queue.addRequest('u1')).resolves.toEqual({ id: 1 });
+      await queue.addRequest('u2');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(Object.keys(data)).toHaveLength(1);
+
+      const store = new MemoryCacheStore();
+      jest.spyOn(store, 'get').mockImplementation(() => { throw new Error('unavailable'); });
+      await expect(new FetchQueue(fetchMock, { cache: { store } }).addRequest('u1')).resolves.toEqual({ id: 1 });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('cancellation', () => {
+    /**
+     * Creates a fetch mock that only settles when its signal aborts.
+     */
+    const hangingFetch = () => jest.fn((url: string, options?: RequestInit) => new Promise((_, reject) => {
+      options?.signal?.addEventListener('abort', () => reject(options.signal?.reason));
+    }));
+
+    it('rejects only the waiter that aborts', async () => {
+      const { fetchMock, release } = deferredFetch();
+      const queue = new FetchQueue(fetchMock);
+      const controller = new AbortController();
+
+      const aborted = queue.addRequest('u1', { signal: controller.signal });
+      const kept = queue.addRequest('u1');
+      controller.abort();
+
+      await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+      expect((fetchMock.mock.calls[0] as any[])[1].signal.aborted).toBe(false);
+      await release();
+      await expect(kept).resolves.toBe('u1');
+    });
+
+    it('aborts the fetch once every waiter aborts', async () => {
+      const fetchMock = hangingFetch();
+      const queue = new FetchQueue(fetchMock);
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const p1 = queue.addRequest('u1', { signal: first.signal });
+      const p2 = queue.addRequest('u1', { signal: second.signal });
+      first.abort();
+      expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(false);
+      second.abort(new Error('unmounted'));
+
+      await expect(p1).rejects.toMatchObject({ name: 'AbortError' });
+      await expect(p2).rejects.toThrow('unmounted');
+      expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(true);
+    });
+
+    it('frees the slot of a request aborted during its retry backoff', async () => {
+      const fetchMock = jest.fn()
+        .mockResolvedValueOnce({ ok: false, status: 503 })
+        .mockResolvedValueOnce('u2');
+      const queue = new FetchQueue(fetchMock, { retry: { baseDelay: 2000, jitter: 0 } });
+      const controller = new AbortController();
+
+      const p1 = queue.addRequest('u1', { signal: controller.signal });
+      const p2 = queue.addRequest('u2');
+      await new Promise(resolve => setTimeout(resolve, 0));
+      controller.abort();
+
+      await expect(p1).rejects.toMatchObject({ name: 'AbortError' });
+      const started = Date.now();
+      await expect(p2).resolves.toBe('u2');
+      expect(Date.now() - started).toBeLessThan(500);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('drops queued requests whose waiters abort and starts a fresh one afterwards', async () => {
+      const { fetchMock, release } = deferredFetch();
+      const queue = new FetchQueue(fetchMock);
+      const controller = new AbortController();
+
+      const first = queue.addRequest('u1');
+      const dropped = queue.addRequest('u2', { signal: controller.signal });
+      controller.abort();
+      await expect(dropped).rejects.toMatchObject({ name: 'AbortError' });
+      await release();
+      await first;
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      const again = queue.addRequest('u2');
+      await release();
+      await expect(again).resolves.toBe('u2');
+    });
+
+    it('rejects right away when the signal is already aborted', async () => {
+      const fetchMock = jest.fn();
+      const queue = new FetchQueue(fetchMock);
+
+      await expect(queue.addRequest('u1', { signal: AbortSignal.abort() })).rejects.toMatchObject({ name: 'AbortError' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('cancels one request or all of them', async () => {
+      const fetchMock = hangingFetch();
+      const queue = new FetchQueue(fetchMock, { concurrency: 3 });
+
+      const p1 = queue.addRequest('u1', { method: 'GET' });
+      const p2 = queue.addRequest('u2');
+      const p3 = queue.addRequest('u3');
+      queue.cancel('u1', { method: 'GET' });
+      await expect(p1).rejects.toMatchObject({ name: 'AbortError' });
+      expect(fetchMock.mock.calls.map(([, options]) => options?.signal?.aborted)).toEqual([true, false, false]);
+
+      queue.cancelAll();
+      await expect(p2).rejects.toMatchObject({ name: 'AbortError' });
+      await expect(p3).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('parse', () => {
+    const jsonResponse = (body: any) => new Response(JSON.stringify(body), {
+      headers: { 'content-type': 'application/json' }
+    });
+
+    it('gives every waiter its own clone of the response', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(jsonResponse({ id: 1 }));
+      const queue = new FetchQueue(fetchMock);
+
+      const [r1, r2] = await Promise.all([queue.addRequest<Response>('u1'), queue.addRequest<Response>('u1')]);
+      expect(r1).not.toBe(r2);
+      await expect(r1.json()).resolves.toEqual({ id: 1 });
+      await expect(r2.json()).resolves.toEqual({ id: 1 });
+    });
+
+    it('reads the body once for every waiter', async () => {
+      const response = jsonResponse({ id: 1 });
+      const json = jest.spyOn(response, 'json');
+      const queue = new FetchQueue(jest.fn().mockResolvedValue(response), { parse: 'json' });
+
+      const [r1, r2] = await Promise.all([
+        queue.addRequest<{ id: number }>('u1'),
+        queue.addRequest<{ id: number }>('u1')
+      ]);
+      expect(r1.id).toBe(1);
+      expect(r2).toBe(r1);
+      expect(json).toHaveBeenCalledTimes(1);
+    });
+
+    it('accepts a parser per request and does not share requests read differently', async () => {
+      const fetchMock = jest.fn(() => Promise.resolve(new Response('hello')));
+      const queue = new FetchQueue(fetchMock, { concurrency: 2 });
+      const upper = async (response: Response) => (await response.text()).toUpperCase();
+
+      const [text, shout, again] = await Promise.all([
+        queue.addRequest<string>('u1', { parse: 'text' }),
+        queue.addRequest<string>('u1', { parse: upper }),
+        queue.addRequest<string>('u1', { parse: upper })
+      ]);
+      expect([text, shout, again]).toEqual(['hello', 'HELLO', 'HELLO']);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects every waiter when the body cannot be parsed', async () => {
+      const queue = new FetchQueue(jest.fn().mockResolvedValue(new Response('not json')), { parse: 'json' });
+
+      const results = await Promise.allSettled([queue.addRequest('u1'), queue.addRequest('u1')]);
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+      expect((results[0] as PromiseRejectedResult).reason.name).toBe('SyntaxError');
+    });
+
+    it('caches the parsed value', async () => {
+      const fetchMock = jest.fn(() => Promise.resolve(jsonResponse({ id: 1 })));
+      const queue = new FetchQueue(fetchMock, { parse: 'json', cache: {} });
+
+      await queue.addRequest('u1');
+      await expect(queue.addRequest('u1')).resolves.toEqual({ id: 1 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('priority and timeout', () => {
+    it('starts higher lanes first', async () => {
+      const { fetchMock, release } = deferredFetch();
+      const queue = new FetchQueue(fetchMock);
+
+      const all = Promise.all([
+        queue.addRequest('first'),
+        queue.addRequest('low', { priority: 'low' }),
+        queue.addRequest('normal'),
+        queue.addRequest('high', { priority: 'high' })
+      ]);
+      for (let i = 0; i < 4; i++) await release();
+      await all;
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['first', 'high', 'normal', 'low']);
+    });
+
+    it('moves a shared request to the most urgent lane of its callers', async () => {
+      const { fetchMock, release } = deferredFetch();
+      const queue = new FetchQueue(fetchMock);
+
+      const all = Promise.all([
+        queue.addRequest('first'),
+        queue.addRequest('normal'),
+        queue.addRequest('shared', { priority: 'low' }),
+        queue.addRequest('shared', { priority: 'high' })
+      ]);
+      for (let i = 0; i < 3; i++) await release();
+      await all;
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['first', 'shared', 'normal']);
+    });
+
+    describe('timeout', () => {
+      beforeEach(() => jest.useFakeTimers());
+      afterEach(() => jest.useRealTimers());
+
+      /**
+       * Creates a fetch mock that never settles.
+       */
+      const hungFetch = () => jest.fn((url: string, options?: RequestInit) => new Promise(() => undefined));
+
+      it('rejects every waiter with a FetchTimeoutError and aborts the fetch', async () => {
+        const fetchMock = hungFetch();
+        const queue = new FetchQueue(fetchMock);
+
+        const results = Promise.allSettled([
+          queue.addRequest('u1', { timeout: 100 }),
+          queue.addRequest('u1')
+        ]);
+        await jest.advanceTimersByTimeAsync(100);
+        const [first, second] = await results;
+        const error = (first as PromiseRejectedResult).reason;
+        expect(error).toBeInstanceOf(FetchTimeoutError);
+        expect(error).toMatchObject({ url: 'u1', timeout: 100 });
+        expect((second as PromiseRejectedResult).reason).toBe(error);
+        expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(true);
+      });
+
+      it('frees the slot for the requests behind a hung one', async () => {
+        const fetchMock = jest.fn()
+          .mockImplementationOnce(() => new Promise(() => undefined))
+          .mockResolvedValueOnce('two');
+        const queue = new FetchQueue(fetchMock, { timeout: 1000 });
+
+        const hung = queue.addRequest('u1').catch(error => error);
+        const next = queue.addRequest('u2', { timeout: 0 });
+        await jest.advanceTimersByTimeAsync(1000);
+        await expect(hung).resolves.toBeInstanceOf(FetchTimeoutError);
+        await expect(next).resolves.toBe('two');
+      });
+    });
+  });
+
+  describe('interceptors', () => {
+    it('changes requests before hashing and sending them', async () => {
+      const fetchMock = jest.fn((url: string, options?: RequestInit) => Promise.resolve(url));
+      const queue = new FetchQueue(fetchMock);
+      const remove = queue.interceptRequest(({ url, options }) => ({
+        url: `https://api.test/${url}`,
+        options: { ...options, headers: { Authorization: 'Bearer a' } }
+      }));
+      queue.interceptRequest(request => {
+        request.options = { ...request.options, method: 'GET' };
+      });
+
+      const [r1, r2] = await Promise.all([queue.addRequest('u1'), queue.addRequest('u1')]);
+      expect([r1, r2]).toEqual(['https://api.test/u1', 'https://api.test/u1']);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][1]).toMatchObject({ method: 'GET', headers: { Authorization: 'Bearer a' } });
+
+      remove();
+      await expect(queue.addRequest('u1')).resolves.toBe('u1');
+    });
+
+    it('inspects and replaces responses', async () => {
+      const fetchMock = jest.fn()
+        .mockResolvedValueOnce({ status: 200, body: 'one' })
+        .mockResolvedValueOnce({ status: 403 });
+      const queue = new FetchQueue(fetchMock);
+      const seen: string[] = [];
+      queue.interceptResponse((response, { url }) => {
+        seen.push(url);
+      });
+      queue.interceptResponse(response => {
+        if (response.status === 403) throw new Error('Forbidden');
+        return response.body;
+      });
+
+      await expect(queue.addRequest('u1')).resolves.toBe('one');
+      await expect(queue.addRequest('u2')).rejects.toThrow('Forbidden');
+      expect(seen).toEqual(['u1', 'u2']);
+    });
+
+    it('refreshes the credentials once and replays the rejected and pending requests', async () => {
+      let token = 'old';
+      const fetchMock = jest.fn((url: string, options?: RequestInit) => {
+        const auth = (options?.headers as Record<string, string>).Authorization;
+        return Promise.resolve(auth === 'new' ? { status: 200, url } : { status: 401 });
+      });
+      let finishRefresh = () => undefined as void;
+      const refresh = jest.fn(() => new Promise<void>(resolve => {
+        finishRefresh = () => {
+          token = 'new';
+          resolve();
+        };
+      }));
+      const queue = new FetchQueue(fetchMock, { concurrency: 2, refresh: { refresh } });
+      queue.interceptRequest(({ url, options }) => ({ url, options: { ...options, headers: { Authorization: token } } }));
+
+      const all = Promise.all([queue.addRequest('u1'), queue.addRequest('u2'), queue.addRequest('u3')]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(refresh).toHaveBeenCalledTimes(1);
+      // u3 waits for the refresh instead of taking the freed slot
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['u1', 'u2']);
+
+      finishRefresh();
+      await expect(all).resolves.toEqual([
+        { status: 200, url: 'u1' },
+        { status: 200, url: 'u2' },
+        { status: 200, url: 'u3' }
+      ]);
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+    });
+
+    it('replays a request only once and rejects when the refresh fails', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({ status: 401 });
+      const refresh = jest.fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('session expired'));
+      const queue = new FetchQueue(fetchMock, { refresh: { refresh } });
+
+      await expect(queue.addRequest('u1')).resolves.toEqual({ status: 401 });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await expect(queue.addRequest('u2')).rejects.toThrow('session expired');
+    });
+  });
+
+  describe('dedup keys', () => {
+    it('shares requests with equivalent options', async () => {
+      const fetchMock = jest.fn().mockResolvedValue('ok');
+      const queue = new FetchQueue(fetchMock);
+
+      await Promise.all([
+        queue.addRequest('u1', { headers: { Accept: 'text/plain', 'X-Id': '1' }, cache: 'no-store' }),
+        queue.addRequest('u1', { cache: 'no-store', headers: { 'x-id': '1', accept: 'text/plain' } }),
+        queue.addRequest('u1', { headers: new Headers([['X-Id', '1'], ['Accept', 'text/plain']]), cache: 'no-store', method: 'get' })
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await Promise.all([
+        queue.addRequest('u2', { method: 'PUT', body: new URLSearchParams('b=2&a=1') }),
+        queue.addRequest('u2', { method: 'PUT', body: new URLSearchParams('a=1&b=2') }),
+        queue.addRequest('u2', { method: 'PUT', body: new URLSearchParams('a=1&b=3') })
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('sends every call of a non idempotent method', async () => {
+      const fetchMock = jest.fn().mockResolvedValue('ok');
+      const queue = new FetchQueue(fetchMock, { concurrency: 2, cache: {} });
+
+      await Promise.all([
+        queue.addRequest('u1', { method: 'POST', body: '{}' }),
+        queue.addRequest('u1', { method: 'POST', body: '{}' })
+      ]);
+      await queue.addRequest('u1', { method: 'POST', body: '{}' });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('sends every call whose body cannot be compared', async () => {
+      const fetchMock = jest.fn(async (url: string, options?: RequestInit) => options?.body);
+      const queue = new FetchQueue(fetchMock, { concurrency: 2 });
+      const first = new FormData();
+      first.append('name', 'first');
+      const second = new FormData();
+      second.append('name', 'second');
+
+      const results = await Promise.all([
+        queue.addRequest('item/1', { method: 'PUT', body: first }),
+        queue.addRequest('item/1', { method: 'PUT', body: second }),
+        queue.addRequest('item/2', { method: 'PUT', body: new Blob(['a']) }),
+        queue.addRequest('item/2', { method: 'PUT', body: new Blob(['b']) })
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      expect(results[0]).toBe(first);
+      expect(results[1]).toBe(second);
+    });
+
+    it('shares only idempotent calls by default', async () => {
+      const fetchMock = jest.fn().mockResolvedValue('ok');
+      const queue = new FetchQueue(fetchMock, { concurrency: 2 });
+
+      await Promise.all([
+        queue.addRequest('u1', { method: 'DELETE' }),
+        queue.addRequest('u1', { method: 'DELETE' }),
+        queue.addRequest('u1', { method: 'PATCH' }),
+        queue.addRequest('u1', { method: 'PATCH' })
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('rejects the calls whose key cannot be built', async () => {
+      const fetchMock = jest.fn().mockResolvedValue('ok');
+      const queue = new FetchQueue(fetchMock);
+      const throwing = new FetchQueue(fetchMock, { keyFn: () => { throw new Error('no key'); } });
+
+      let pending: Promise<any> | undefined;
+      expect(() => { pending = queue.addRequest('u1', { headers: { 'X-Name': '€' } }); }).not.toThrow();
+      await expect(pending).rejects.toThrow('ByteString');
+      await expect(throwing.addRequest('u1')).rejects.toThrow('no key');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('cancels every call of a request that is not shared', async () => {
+      const fetchMock = jest.fn(() => new Promise(() => undefined));
+      const queue = new FetchQueue(fetchMock);
+
+      const results = Promise.allSettled([
+        queue.addRequest('u1', { method: 'POST' }),
+        queue.addRequest('u1', { method: 'POST' })
+      ]);
+      queue.cancel('u1', { method: 'POST' });
+      expect((await results).map(result => result.status)).toEqual(['rejected', 'rejected']);
+    });
+
+    it('accepts the methods to deduplicate and a custom key', async () => {
+      const fetchMock = jest.fn().mockResolvedValue('ok');
+      const posts = new FetchQueue(fetchMock, { dedupMethods: ['post'] });
+      await Promise.all([posts.addRequest('u1', { method: 'POST' }), posts.addRequest('u1', { method: 'POST' })]);
+      await Promise.all([posts.addRequest('u1'), posts.addRequest('u1')]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      const keyFn = jest.fn((url: string, options?: RequestInit) => options?.method === 'POST' ? undefined : url.split('?')[0]);
+      const queue = new FetchQueue(fetchMock, { keyFn });
+      await Promise.all([queue.addRequest('u2?a=1'), queue.addRequest('u2?a=2')]);
+      await Promise.all([queue.addRequest('u2', { method: 'POST' }), queue.addRequest('u2', { method: 'POST' })]);
+      expect(fetchMock).toHaveBeenCalledTimes(6);
+      expect(keyFn).toHaveBeenCalledWith('u2?a=1', undefined);
+    });
+  });
+
+  describe('events and stats', () => {
+    it('dispatches the lifecycle of the requests', async () => {
+      const fetchMock = jest.fn()
+        .mockResolvedValueOnce('one')
+        .mockRejectedValueOnce(new Error('network'));
+      const queue = new FetchQueue(fetchMock);
+      const log: string[] = [];
+      (['request:start', 'request:dedup', 'request:success', 'request:error'] as const).forEach(event =>
+        queue.events.subscribe(event, info => log.push(`${event} ${info.method} ${info.url}`), 'test'));
+      queue.events.subscribe('queue:idle', () => log.push('queue:idle'), 'test');
+      const errors: any[] = [];
+      queue.events.subscribe('request:error', info => errors.push(info), 'errors');
+
+      await Promise.allSettled([queue.addRequest('u1'), queue.addRequest('u1'), queue.addRequest('u2')]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(log).toEqual([
+        'request:start GET u1',
+        'request:dedup GET u1',
+        'request:success GET u1',
+        'request:start GET u2',
+        'request:error GET u2',
+        'queue:idle'
+      ]);
+      expect(errors[0].error.message).toBe('network');
+      expect(typeof errors[0].duration).toBe('number');
+    });
+
+    it('dispatches through a given handler', async () => {
+      const handler = new EventHandler();
+      const queue = new FetchQueue(jest.fn().mockResolvedValue('ok'), { events: handler.scope('api') });
+      const started = handler.waitFor('api.request:start');
+
+      await queue.addRequest('u1');
+      await expect(started).resolves.toEqual([expect.objectContaining({ url: 'u1', method: 'GET' })]);
+    });
+
+    it('reports pending requests, dedup hits and latencies', async () => {
+      jest.useFakeTimers();
+      try {
+        const fetchMock = jest.fn((url: string) => new Promise(resolve => setTimeout(() => resolve(url), Number(url))));
+        const queue = new FetchQueue(fetchMock);
+        expect(queue.stats()).toEqual({
+          inFlight: 0, queued: 0, calls: 0, dedupHits: 0, dedupRatio: 0, latency: { p50: 0, p90: 0, p99: 0 }
+        });
+
+        const all = Promise.all(['100', '100', '300', '200'].map(url => queue.addRequest(url)));
+        expect(queue.stats()).toMatchObject({ inFlight: 1, queued: 2, calls: 4, dedupHits: 1, dedupRatio: 0.25 });
+        await jest.advanceTimersByTimeAsync(600);
+        await all;
+        expect(queue.stats()).toMatchObject({ inFlight: 0, queued: 0, latency: { p50: 200, p90: 300, p99: 300 } });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('batch', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    const match = (url: string) => url.startsWith('/users/');
+    const batchFn = jest.fn(async (requests: Array<{ url: string }>) =>
+      requests.map(({ url }) => url === '/users/0' ? new Error('not found') : { id: url.split('/')[2] }));
+
+    beforeEach(() => batchFn.mockClear());
+
+    it('sends the calls of a window as one batch and splits the results', async () => {
+      const fetchMock = jest.fn().mockResolvedValue('other');
+      const queue = new FetchQueue(fetchMock, { batch: { match, batchFn } });
+
+      const users = Promise.allSettled([
+        queue.addRequest('/users/1'),
+        queue.addRequest('/users/2'),
+        queue.addRequest('/users/1'),
+        queue.addRequest('/users/0')
+      ]);
+      const other = queue.addRequest('/teams');
+      await jest.advanceTimersByTimeAsync(9);
+      expect(batchFn).not.toHaveBeenCalled();
+      await expect(other).resolves.toBe('other');
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(batchFn).toHaveBeenCalledTimes(1);
+      expect(batchFn.mock.calls[0][0].map(({ url }) => url)).toEqual(['/users/1', '/users/2', '/users/0']);
+      const results = await users;
+      expect(results.slice(0, 3).map(result => (result as PromiseFulfilledResult<any>).value))
+        .toEqual([{ id: '1' }, { id: '2' }, { id: '1' }]);
+      expect((results[3] as PromiseRejectedResult).reason.message).toBe('not found');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends a full batch right away', async () => {
+      const queue = new FetchQueue(jest.fn(), { batch: { match, batchFn, maxSize: 2 } });
+
+      const all = Promise.all(['/users/1', '/users/2', '/users/3'].map(url => queue.addRequest(url)));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(batchFn.mock.calls.map(([requests]) => requests.length)).toEqual([2]);
+      await jest.advanceTimersByTimeAsync(10);
+      expect(batchFn.mock.calls.map(([requests]) => requests.length)).toEqual([2, 1]);
+      await expect(all).resolves.toEqual([{ id: '1' }, { id: '2' }, { id: '3' }]);
+    });
+
+    it('rejects every call of a failed batch', async () => {
+      const failing = jest.fn().mockResolvedValue([{ id: '1' }]);
+      const queue = new FetchQueue(jest.fn(), { batch: { match, batchFn: failing } });
+
+      const results = Promise.allSettled([queue.addRequest('/users/1'), queue.addRequest('/users/2')]);
+      await jest.advanceTimersByTimeAsync(10);
+      expect((await results).map(result => result.status)).toEqual(['rejected', 'rejected']);
+    });
+  });
+});
@@ -1,6 +1,12 @@
-import formatValue from "../src/format-value";
+import formatValue, { FormatValueError, registerFormat, setFormatDefaults } from "../src/format-value";
 import numeral from "numeral";
-import { addDictionary, setLang } from "../src/i18n";
+import { addDictionary, addFormatDuration, addFormatOrdinal, setLang } from "../src/i18n";
+
+declare module "../src/format-value" {
+  interface FormatTypes {
+    shout: true;
+  }
+}
 
 describe("formatValue", () => {
   beforeEach(() => {
@@ -101,4 +107,132 @@ describe("formatValue", () => {
     );
   });
 
+  it("formats with registered formatters", () => {
+    const shout = jest.fn((value: string, conf, lang: string) => `${value.toUpperCase()}! (${lang})`);
+    registerFormat("shout", shout);
+    const conf = { format: "shout" as const, context: "title" };
+    expect(formatValue("hello", conf)).toBe("HELLO! (en)");
+    expect(shout).toHaveBeenCalledWith("hello", conf, "en");
+  });
+
+  it("replaces registered formatters and keeps unknown formats as is", () => {
+    registerFormat("shout", value => `[${value}]`);
+    expect(formatValue("hello", { format: "shout" })).toBe("[hello]");
+    expect(formatValue("hello", { format: "missing" as any })).toBe("hello");
+  });
+
+  it("formats percents", () => {
+    expect(formatValue(0.256, { format: "percent" })).toBe("25.6%");
+    expect(formatValue(0.256, { format: "percent", formatConf: { maximumFractionDigits: 0 } })).toBe("26%");
+  });
+
+  it("formats file sizes in binary or decimal units", () => {
+    expect(formatValue(512, { format: "bytes" })).toBe("512 B");
+    expect(formatValue(1536, { format: "bytes" })).toBe("1.5 KB");
+    expect(formatValue(5 * 1024 ** 3, { format: "bytes" })).toBe("5 GB");
+    expect(formatValue(1500000, { format: "bytes", formatConf: { binary: false } })).toBe("1.5 MB");
+  });
+
+  it("formats durations in milliseconds", () => {
+    expect(formatValue(5003000, { format: "duration" })).toBe("1h 23m");
+    expect(formatValue(90061000, { format: "duration", formatConf: { largest: 3, labels: { day: "d", hour: "h", minute: "m" } } }))
+      .toBe("1d 1h 1m");
+    expect(formatValue(400, { format: "duration" })).toBe("0s");
+    expect(formatValue(-61000, { format: "duration" })).toBe("-1m 1s");
+    expect(formatValue(3605000, { format: "duration" })).toBe("1h");
+    expect(formatValue(90005000, { format: "duration", formatConf: { largest: 3, labels: { day: "d", hour: "h", minute: "m", second: "s" } } }))
+      .toBe("1d 1h");
+  });
+
+  it("formats durations with per context defaults", () => {
+    addFormatDuration({ default: { clock: { largest: 3, labels: { hour: " h", minute: " min", second: " s" } } } });
+    expect(formatValue(3723000, { format: "duration", context: "clock" })).toBe("1 h 2 min 3 s");
+    addFormatDuration({ es: { clock: { largest: 3, labels: { hour: " h", minute: " min", second: " s" } } } });
+    setLang("es");
+    expect(formatValue(3723000, { format: "duration" })).toBe("1h 2m");
+    expect(formatValue(3723000, { format: "duration", context: "clock" })).toBe("1 h 2 min 3 s");
+  });
+
+  it("formats relative times", () => {
+    const now = Date.now();
+    expect(formatValue(now - 3 * 86400000, { format: "relative" })).toBe("3 days ago");
+    expect(formatValue(now + 2 * 3600000, { format: "relative" })).toBe("in 2 hours");
+    expect(formatValue(now - 3 * 86400000, { format: "relative", formatConf: { withoutSuffix: true } })).toBe("3 days");
+  });
+
+  it("formats ordinals with the suffixes of the lang", () => {
+    expect([1, 2, 3, 4, 11, 22, 1000].map(n => formatValue(n, { format: "ordinal" })))
+      .toEqual(["1st", "2nd", "3rd", "4th", "11th", "22nd", "1,000th"]);
+    addFormatOrdinal({ es: { other: "º" } });
+    setLang("es");
+    expect(formatValue(2, { format: "ordinal" })).toBe("2º");
+  });
+
+  describe("empty and invalid values", () => {
+    afterEach(() => setFormatDefaults({ emptyPlaceholder: "", invalidPlaceholder: "", strict: false }));
+
+    it("shows placeholders for empty values", () => {
+      expect([null, undefined, "", "  "].map(value => formatValue(value, { format: "number" })))
+        .toEqual(["", "", "", ""]);
+      expect(formatValue(null, { format: "date", emptyPlaceholder: "-" })).toBe("-");
+      expect(formatValue(undefined, { format: "currency", formatConf: { currency: "USD" }, emptyPlaceholder: "-" })).toBe("-");
+    });
+
+    it("shows placeholders for invalid values", () => {
+      expect(formatValue(NaN, { format: "number", invalidPlaceholder: "n/a" })).toBe("n/a");
+      expect(formatValue("abc", { format: "percent", invalidPlaceholder: "n/a" })).toBe("n/a");
+      expect(formatValue({}, { format: "bytes", invalidPlaceholder: "n/a" })).toBe("n/a");
+      // moment warns when it falls back to the Date constructor
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+      expect(formatValue("not a date", { format: "date", invalidPlaceholder: "n/a" })).toBe("n/a");
+      warn.mockRestore();
+      expect(formatValue(new Date(NaN), { format: "relative", invalidPlaceholder: "n/a" })).toBe("n/a");
+      const circular: any = {};
+      circular.self = circular;
+      expect(formatValue(circular, { format: "number", invalidPlaceholder: "n/a" })).toBe("n/a");
+      expect(() => formatValue(circular, { format: "number", strict: true })).toThrow("[object Object]");
+    });
+
+    it("coerces numeric strings", () => {
+      expect(formatValue(" 1234.5 ", { format: "number" })).toBe("1,234.5");
+      expect(formatValue("3", { format: "ordinal" })).toBe("3rd");
+      expect(formatValue(true, { format: "number" })).toBe(1);
+      expect(formatValue(BigInt("12345678901234567890"), { format: "number" })).toBe("12,345,678,901,234,567,890");
+      expect(formatValue(BigInt(2048), { format: "bytes" })).toBe("2 KB");
+    });
+
+    it("uses the global defaults unless the configuration overrides them", () => {
+      setFormatDefaults({ emptyPlaceholder: "—", invalidPlaceholder: "?" });
+      expect(formatValue(null, { format: "number" })).toBe("—");
+      expect(formatValue("abc", { format: "number" })).toBe("?");
+      expect(formatValue(null, { format: "number", emptyPlaceholder: "" })).toBe("");
+    });
+
+    it("throws in strict mode", () => {
+      expect(() => formatValue("abc", { format: "number", strict: true })).toThrow(FormatValueError);
+      setFormatDefaults({ strict: true });
+      try {
+        formatValue(null, { format: "date" });
+        throw new Error("expected a FormatValueError");
+      } catch (error) {
+        expect(error).toBeInstanceOf(FormatValueError);
+        expect((error as FormatValueError).reason).toBe("empty");
+        expect((error as FormatValueError).format).toBe("date");
+      }
+      expect(formatValue(null, { format: "date", strict: false })).toBe("");
+    });
+
+    it("applies the same policy to registered formatters", () => {
+      registerFormat("shout", (value, conf) => {
+        if (typeof value !== "string") throw new FormatValueError(value, conf.format as string, "invalid");
+        return `${value.toUpperCase()}!`;
+      });
+      expect(formatValue(42, { format: "shout", invalidPlaceholder: "?" })).toBe("?");
+      expect(formatValue(undefined, { format: "shout", emptyPlaceholder: "-" })).toBe("-");
+    });
+
+    it("keeps formats without a formatter as is", () => {
+      expect(formatValue(null, {})).toBeNull();
+    });
+  });
 });
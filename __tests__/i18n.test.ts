@@ -17,6 +17,14 @@ import t, {
   formatNumber,
   addFormatCurrency,
   formatCurrency,
+  addFormatPercent,
+  formatPercent,
+  addFormatBytes,
+  formatBytes,
+  addFormatRelative,
+  formatRelative,
+  formatDuration,
+  formatOrdinal,
   getLang
 } from '../src/i18n';
 
@@ -94,4 +102,21 @@ describe('i18n utilities', () => {
     addDictionary({ default: { section: { key: 'value' } } });
     expect(t('key', 'section')).toBe('value');
   });
+
+  test('new format configs have defaults and per context values', () => {
+    setLang('en');
+    expect(formatPercent()).toEqual({ style: 'percent', maximumFractionDigits: 2 });
+    expect(formatBytes()).toEqual({ binary: true, maximumFractionDigits: 1 });
+    expect(formatDuration()).toMatchObject({ largest: 2 });
+    expect(formatRelative()).toEqual({ withoutSuffix: false });
+    expect(formatOrdinal()).toMatchObject({ one: 'st', other: 'th' });
+
+    addFormatPercent({ es: { short: { maximumFractionDigits: 0 } } });
+    addFormatBytes({ es: { disk: { binary: false } } });
+    addFormatRelative({ es: { short: { withoutSuffix: true } } });
+    setLang('es');
+    expect(formatPercent('short')).toEqual({ maximumFractionDigits: 0 });
+    expect(formatBytes('disk')).toEqual({ binary: false });
+    expect(formatRelative('short')).toEqual({ withoutSuffix: true });
+  });
 });
@@ -0,0 +1,97 @@
+import moment from "moment";
+import { formatDateTokens, intlBackend, parseDateTokens } from "../src/intl-backend";
+import { getFormatBackend, setFormatBackend } from "../src/format-backend";
+import { momentBackend } from "../src/moment-backend";
+import formatValue from "../src/format-value";
+import parseValue from "../src/parse-value";
+import { setLang } from "../src/i18n";
+
+describe("intlBackend", () => {
+  beforeEach(() => {
+    setLang("en");
+    setFormatBackend(intlBackend);
+  });
+
+  afterEach(() => {
+    setFormatBackend(momentBackend);
+    setLang("en");
+  });
+
+  it("formats moment-style tokens", () => {
+    const date = new Date(2024, 0, 2, 15, 4, 5, 6);
+    expect(formatDateTokens(date, "MM/DD/YYYY HH:mm:ss.SSS", "en")).toBe("01/02/2024 15:04:05.006");
+    expect(formatDateTokens(date, "M/D/YY h:mm a", "en")).toBe("1/2/24 3:04 pm");
+    expect(formatDateTokens(date, "dddd, MMMM Do [at] hh A", "en")).toBe("Tuesday, January 2nd at 03 PM");
+    expect(formatDateTokens(date, "ddd D MMM", "es")).toBe("mar 2 ene");
+    expect(formatDateTokens(date, "x", "en")).toBe(String(date.getTime()));
+    expect(formatDateTokens(date, "Z", "en")).toMatch(/^[+-]\d{2}:\d{2}$/);
+  });
+
+  it("formats localized tokens with the Intl options", () => {
+    const date = new Date(2024, 0, 2, 15, 4);
+    expect(formatDateTokens(date, "L", "en")).toBe("01/02/2024");
+    expect(formatDateTokens(date, "LL", "de")).toBe("2. Januar 2024");
+  });
+
+  it("keeps the date formats of the i18n configs", () => {
+    expect(getFormatBackend()).toBe(intlBackend);
+    expect(formatValue("2024-01-02", { format: "date" })).toBe("01/02/2024");
+    expect(formatValue("2024-01-02 03:04:05", { format: "date-time" })).toBe("01/02/2024 03:04:05");
+    expect(formatValue("2024-01-02T03:04:05", { format: "time", formatConf: "HH:mm" })).toBe("03:04");
+    expect(formatValue("not a date", { format: "date", invalidPlaceholder: "n/a" })).toBe("n/a");
+    expect(formatValue(moment("2024-01-02"), { format: "date" })).toBe("01/02/2024");
+  });
+
+  it("formats relative times", () => {
+    const now = Date.now();
+    expect(formatValue(now - 3 * 86400000, { format: "relative" })).toBe("3 days ago");
+    expect(formatValue(now + 2 * 3600000, { format: "relative" })).toBe("in 2 hours");
+    expect(formatValue(now - 3 * 86400000, { format: "relative", formatConf: { withoutSuffix: true } })).toBe("3 days");
+    expect(formatValue(now - 400 * 86400000, { format: "relative" })).toBe("1 year ago");
+  });
+
+  it("formats compact numbers from numeral patterns", () => {
+    expect(formatValue(1500, { format: "number-compact" })).toBe("1.50K");
+    expect(formatValue(1500, { format: "number-compact", formatConf: "0.[0]a" })).toBe("1.5K");
+    expect(formatValue(2000, { format: "number-compact", formatConf: "0.[0]a" })).toBe("2K");
+    expect(formatValue(1234.5, { format: "number-compact", formatConf: "0,0.00" })).toBe("1,234.50");
+    setLang("de");
+    expect(formatValue(1500000, { format: "number-compact" })).toBe("1,50 Mio.");
+  });
+
+  it("parses moment-style tokens", () => {
+    expect(parseDateTokens("01/02/2024 15:04:05.006", "MM/DD/YYYY HH:mm:ss.SSS", "en"))
+      .toEqual(new Date(2024, 0, 2, 15, 4, 5, 6));
+    expect(parseDateTokens("Tuesday, January 2nd at 03 PM", "dddd, MMMM Do [at] hh A", "en"))
+      .toEqual(new Date(new Date().getFullYear(), 0, 2, 15));
+    expect(parseDateTokens("2 ene 24", "D MMM YY", "es")).toEqual(new Date(2024, 0, 2));
+    expect(parseDateTokens("2024-01-02T03:04:05+02:00", "YYYY-MM-DD[T]HH:mm:ssZ", "en"))
+      .toEqual(new Date("2024-01-02T01:04:05Z"));
+    const date = new Date(2024, 0, 2, 15, 4);
+    const expected: Record<string, number> = {
+      L: new Date(2024, 0, 2).getTime(),
+      LL: new Date(2024, 0, 2).getTime(),
+      LLL: date.getTime(),
+      LLLL: date.getTime(),
+      LT: new Date().setHours(15, 4, 0, 0)
+    };
+    Object.entries(expected).forEach(([pattern, time]) =>
+      expect(parseDateTokens(formatDateTokens(date, pattern, "de"), pattern, "de").getTime()).toBe(time));
+    ["02/31/2024", "1/2/2024", "13/01/2024", "01/02/2024 "].forEach(text =>
+      expect(parseDateTokens(text, "MM/DD/YYYY", "en").getTime()).toBeNaN());
+  });
+
+  it("parses back what it formats", () => {
+    expect(parseValue(formatValue(1500, { format: "number-compact" }), { format: "number-compact" })).toBe(1500);
+    expect(parseValue("2.5M", { format: "number-compact" })).toBe(2500000);
+    expect(parseValue("1.2k", { format: "number-compact" })).toBe(1200);
+    expect(() => parseValue("1.5x", { format: "number-compact" })).toThrow("expected a number like 1.20K");
+    expect(parseValue("12/31/2024", { format: "date" })).toBe("2024-12-31");
+    setLang("de");
+    expect(parseValue(formatValue(1500000, { format: "number-compact" }), { format: "number-compact" })).toBe(1500000);
+    expect(parseValue("1,5 mio.", { format: "number-compact" })).toBe(1500000);
+    expect(parseValue("1.234,5", { format: "number-compact", formatConf: "0,0.0" })).toBe(1234.5);
+    setLang("ja");
+    expect(parseValue(formatValue(25000, { format: "number-compact" }), { format: "number-compact" })).toBe(25000);
+  });
+});
@@ -0,0 +1,31 @@
+import moment from "moment";
+import { momentBackend } from "../src/moment-backend";
+import { getFormatBackend } from "../src/format-backend";
+import formatValue from "../src/format-value";
+import parseValue from "../src/parse-value";
+import { setLang } from "../src/i18n";
+
+describe("momentBackend", () => {
+  beforeEach(() => {
+    setLang("en");
+  });
+
+  afterEach(() => {
+    setLang("en");
+  });
+
+  it("keeps the global moment locale in step with setLang", () => {
+    setLang("es");
+    expect(moment.locale()).toBe("es");
+    expect(formatValue("2024-01-02", { format: "date", formatConf: "D MMMM" })).toBe("2 enero");
+  });
+
+  it("is the default and formats and parses with moment and numeral", () => {
+    expect(getFormatBackend()).toBe(momentBackend);
+    expect(formatValue(1500, { format: "number-compact" })).toBe("1.50k");
+    expect(parseValue("1.50k", { format: "number-compact" })).toBe(1500);
+    expect(() => parseValue("1.50K", { format: "number-compact" })).toThrow("expected a number like 1.20k");
+    expect(parseValue("2 Jan 2024", { format: "date", formatConf: "D MMM YYYY" })).toBe("2024-01-02");
+    expect(() => parseValue("2024-01-02", { format: "date" })).toThrow("expected the format MM/DD/YYYY");
+  });
+});
@@ -0,0 +1,70 @@
+import parseValue, { ParseValueError, registerParser } from "../src/parse-value";
+import formatValue from "../src/format-value";
+import { setLang } from "../src/i18n";
+
+describe("parseValue", () => {
+  beforeEach(() => {
+    setLang("en");
+  });
+
+  it("parses locale formatted numbers", () => {
+    expect(parseValue("1,234.5", { format: "number" })).toBe(1234.5);
+    expect(parseValue("-12", { format: "number" })).toBe(-12);
+    setLang("de");
+    expect(parseValue("1.234,5", { format: "number" })).toBe(1234.5);
+    setLang("fr");
+    expect(parseValue(formatValue(1234.5, { format: "number" }), { format: "number" })).toBe(1234.5);
+  });
+
+  it("parses currencies and percents", () => {
+    expect(parseValue("$1,000.25", { format: "currency" })).toBe(1000.25);
+    expect(parseValue("EUR 12.50", { format: "currency", currency: "EUR" })).toBe(12.5);
+    setLang("de");
+    expect(parseValue("1.000,25 €", { format: "currency", currency: "EUR" })).toBe(1000.25);
+    setLang("en");
+    expect(parseValue("25.5%", { format: "percent" })).toBeCloseTo(0.255);
+  });
+
+  it("parses compact numbers", () => {
+    expect(parseValue("1.2k", { format: "number-compact" })).toBe(1200);
+    expect(parseValue("-3.4m", { format: "numbercompact" })).toBe(-3400000);
+    expect(parseValue("15", { format: "number-compact" })).toBe(15);
+    expect(parseValue("1.1k", { format: "number-compact" })).toBe(1100);
+    expect(() => parseValue("1.2K", { format: "number-compact" })).toThrow(ParseValueError);
+    setLang("xx");
+    expect(parseValue("2.5m", { format: "number-compact" })).toBe(2500000);
+  });
+
+  it("parses dates, times and date-times in the configured formats", () => {
+    expect(parseValue("12/31/2024", { format: "date" })).toBe("2024-12-31");
+    expect(parseValue("2024.12.31", { format: "date", formatConf: "YYYY.MM.DD" })).toBe("2024-12-31");
+    expect(parseValue("03:04", { format: "time", formatConf: "HH:mm" })).toBe("03:04:00");
+    const iso = parseValue("01/02/2024 03:04:05", { format: "date-time" });
+    expect(iso).toBe(new Date(2024, 0, 2, 3, 4, 5).toISOString());
+  });
+
+  it("throws typed errors for invalid input", () => {
+    const cases: Array<[string, any]> = [
+      ["12abc", { format: "number" }],
+      ["1.2.3", { format: "number" }],
+      ["12x", { format: "number-compact" }],
+      ["31/12/2024", { format: "date" }],
+      ["  ", { format: "time" }]
+    ];
+    cases.forEach(([text, conf]) => {
+      expect(() => parseValue(text, conf)).toThrow(ParseValueError);
+    });
+    try {
+      parseValue("12abc", { format: "number" });
+    } catch (error) {
+      expect(error).toMatchObject({ name: "ParseValueError", text: "12abc", format: "number" });
+    }
+  });
+
+  it("returns the text without a parser and accepts custom parsers", () => {
+    expect(parseValue("hello", { format: "dictionary" })).toBe("hello");
+    expect(parseValue("hello", {})).toBe("hello");
+    registerParser("dictionary", text => text.toLowerCase());
+    expect(parseValue("HELLO", { format: "dictionary" })).toBe("hello");
+  });
+});
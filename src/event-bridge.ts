@@ -0,0 +1,205 @@
+import eventHandler, { EventContext, EventHandler } from "./event-handler";
+
+/**
+ * Minimal `postMessage` style port, satisfied by BroadcastChannel, MessagePort,
+ * Web Workers and Node `worker_threads` ports.
+ */
+export interface BridgePort {
+  postMessage(message: any): void;
+  addEventListener?(type: 'message', listener: (event: any) => void): void;
+  removeEventListener?(type: 'message', listener: (event: any) => void): void;
+  on?(type: 'message', listener: (value: any) => void): any;
+  off?(type: 'message', listener: (value: any) => void): any;
+  start?(): void;
+}
+
+/**
+ * Options for the {@link EventBridge} constructor.
+ */
+export interface EventBridgeOptions {
+  /** Event names or wildcard patterns to mirror, defaults to every event. */
+  events?: string | string[];
+  /** The handler to mirror, defaults to the package singleton. */
+  handler?: EventHandler<any>;
+  /** Name shared by the bridges that talk to each other over the same port. */
+  channel?: string;
+}
+
+/**
+ * Message posted through the port for each mirrored dispatch.
+ */
+interface BridgeMessage {
+  channel: string;
+  source: string;
+  event: string;
+  data: any[];
+}
+
+let bridgeCount = 0;
+
+/**
+ * Copies a value dropping everything the structured clone algorithm rejects,
+ * such as functions and symbols.
+ * @param value - The value to copy.
+ * @param seen - Copies already made, to keep circular references.
+ * @returns A value safe to pass to `postMessage`.
+ */
+function toCloneable(value: any, seen: WeakMap<object, any> = new WeakMap()): any {
+  if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+  if (value === null || typeof value !== 'object') return value;
+  if (seen.has(value)) return seen.get(value);
+  if (value instanceof Date || value instanceof RegExp || ArrayBuffer.isView(value)
+    || value instanceof ArrayBuffer) return value;
+  if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+  if (value instanceof Map) {
+    const map = new Map();
+    seen.set(value, map);
+    value.forEach((v, k) => map.set(toCloneable(k, seen), toCloneable(v, seen)));
+    return map;
+  }
+  if (value instanceof Set) {
+    const set = new Set();
+    seen.set(value, set);
+    value.forEach(v => set.add(toCloneable(v, seen)));
+    return set;
+  }
+  if (Array.isArray(value)) {
+    const array: any[] = [];
+    seen.set(value, array);
+    value.forEach(v => array.push(toCloneable(v, seen)));
+    return array;
+  }
+  const object: Record<string, any> = {};
+  seen.set(value, object);
+  Object.entries(value).forEach(([key, v]) => {
+    if (typeof v !== 'function' && typeof v !== 'symbol') object[key] = toCloneable(v, seen);
+  });
+  return object;
+}
+
+/**
+ * Mirrors the dispatches of an {@link EventHandler} across JS contexts
+ * through any `postMessage` style port. Events received from the port are
+ * dispatched locally and never posted back, so both sides can bridge the
+ * same events.
+ *
+ * @example
+ * ```ts
+ * // main thread
+ * const bridge = new EventBridge(new BroadcastChannel('app'), { events: 'auth.*' });
+ * // any tab subscribed through its own bridge receives it
+ * await eventHandler.dispatch('auth.ready', { user: 'john' });
+ * bridge.close();
+ * ```
+ */
+export default class EventBridge {
+  private port: BridgePort;
+  private handler: EventHandler<any>;
+  private channel: string;
+  private id: string;
+  private patterns: RegExp[];
+  private incoming: Record<string, Array<BridgeMessage>> = {};
+  private listener: (message: any) => void;
+
+  /**
+   * Construct an instance of EventBridge and start mirroring.
+   * @param port - The port to post and receive the events through.
+   * @param options - The events to mirror, handler and channel name.
+   */
+  constructor(port: BridgePort, {
+    events = '*',
+    handler = eventHandler,
+    channel = 'dbl-utils:event-bridge'
+  }: EventBridgeOptions = {}) {
+    this.port = port;
+    this.handler = handler;
+    this.channel = channel;
+    this.id = `event-bridge-${++bridgeCount}`;
+    const list = Array.isArray(events) ? events : events.split(/[\s,]+/);
+    this.patterns = list.map(e => new RegExp('^' + e.split('*')
+      .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$'));
+
+    if (typeof port.on === 'function') {
+      // node ports emit the message itself
+      this.listener = (message: any) => this.receive(message);
+      port.on('message', this.listener);
+    } else {
+      // web ports emit a MessageEvent
+      this.listener = (event: any) => this.receive(event.data);
+      port.addEventListener?.('message', this.listener);
+      if (typeof port.start === 'function') port.start();
+    }
+
+    // highest priority so an ordered dispatch cannot stop it before it is mirrored,
+    // internal so it does not count as a listener nor posts the events buffered before it
+    this.handler.subscribe('*', this.forward, this.id, {
+      priority: Number.MAX_SAFE_INTEGER,
+      withContext: true,
+      internal: true
+    });
+  }
+
+  /**
+   * Posts a local dispatch to the port unless it came from the port.
+   * @param args - The dispatched data followed by the subscription id and the context.
+   */
+  private forward = (...args: any[]): void => {
+    const { event } = args[args.length - 1] as EventContext;
+    if (this.incoming[event]) {
+      this.incoming[event].shift();
+      if (this.incoming[event].length === 0) delete this.incoming[event];
+      return;
+    }
+    if (!this.patterns.some(pattern => pattern.test(event))) return;
+    const message: BridgeMessage = {
+      channel: this.channel,
+      source: this.id,
+      event,
+      data: toCloneable(args.slice(0, args.lastIndexOf(this.id)))
+    };
+    this.port.postMessage(message);
+  };
+
+  /**
+   * Dispatches locally an event received from the port.
+   * @param message - The received message.
+   */
+  private receive(message: BridgeMessage): void {
+    if (!message || message.channel !== this.channel || message.source === this.id) return;
+    const { event } = message;
+    this.incoming[event] = [...(this.incoming[event] || []), message];
+    // settled so failing listeners go to onError, a failing middleware has no caller to reject to
+    this.handler.dispatchSettled(event, ...message.data)
+      .catch(() => undefined)
+      .then(() => this.release(message));
+  }
+
+  /**
+   * Drops a received message from the echo suppression when it never reached
+   * the bridge subscription, e.g. because a middleware blocked it.
+   * @param message - The received message.
+   */
+  private release(message: BridgeMessage): void {
+    const pending = this.incoming[message.event];
+    if (!pending || !pending.includes(message)) return;
+    this.incoming[message.event] = pending.filter(m => m !== message);
+    if (this.incoming[message.event].length === 0) delete this.incoming[message.event];
+  }
+
+  /**
+   * Stops mirroring, the port itself is left open.
+   *
+   * @example
+   * ```ts
+   * bridge.close();
+   * ```
+   */
+  close(): void {
+    this.handler.unsubscribe('*', this.id);
+    if (typeof this.port.off === 'function') {
+      this.port.off('message', this.listener);
+    } else if (typeof this.port.removeEventListener === 'function') {
+      this.port.removeEventListener('message', this.listener);
+    }
+  }
+}
@@ -1,32 +1,303 @@
-type EventCallback = (...data: any[]) => any | Function;
+type AnyCallback = (...data: any[]) => any | Function;
+
+/**
+ * Map of event names to the tuple of data they are dispatched with. Only the
+ * data is typed: what callbacks return, and so what `dispatch`,
+ * `dispatchOrdered` and `dispatchSettled` resolve with, is not modelled.
+ *
+ * @example
+ * ```ts
+ * type AppEvents = {
+ *   'user.login': [user: User];
+ *   'user.logout': [];
+ *   'config.loaded': [config: Config, cached: boolean];
+ * };
+ * ```
+ */
+export type EventMap = Record<string, any[]>;
+
+/**
+ * Event names of an event map.
+ */
+export type EventName<TEvents extends EventMap> = keyof TEvents & string;
+
+/**
+ * Splits a comma or space separated event list into a union of its items.
+ */
+type EventList<S extends string> =
+  S extends `${infer A},${infer B}` ? EventList<A> | EventList<B>
+  : S extends `${infer A} ${infer B}` ? EventList<A> | EventList<B>
+  : S;
+
+/**
+ * Converts a wildcard pattern into a template literal type, `user.*` into `user.${string}`.
+ */
+type WildcardTemplate<S extends string> =
+  S extends `${infer A}*${infer B}` ? `${A}${string}${WildcardTemplate<B>}` : S;
+
+/**
+ * Event names of a map matched by an event, pattern or list of them.
+ */
+export type MatchingEvents<TEvents extends EventMap, S extends string> =
+  Extract<EventName<TEvents>, WildcardTemplate<EventList<S>>>;
+
+/**
+ * An event, pattern or list of them matching at least one event of the map,
+ * `never` otherwise so typos are reported. Any string when the map is untyped.
+ */
+export type EventPattern<TEvents extends EventMap, S extends string> =
+  string extends EventName<TEvents> ? S : [MatchingEvents<TEvents, S>] extends [never] ? never : S;
+
+/**
+ * Data received by a subscription to an event, pattern or list of them:
+ * the union of the data of every matching event.
+ */
+export type EventPayload<TEvents extends EventMap, S extends string> =
+  string extends EventName<TEvents> ? any[] : TEvents[MatchingEvents<TEvents, S>];
+
+/**
+ * Callback receiving the data of an event followed by the subscription id
+ * and, on ordered dispatches or with `withContext`, the {@link EventContext}.
+ * When several events match, the data is a union of tuples read through a
+ * rest parameter, e.g. `(...data) => data[0]`.
+ */
+export type EventCallback<P extends any[] = any[]> = any[] extends P
+  ? AnyCallback
+  : (...data: [...P, id?: string, context?: EventContext]) => any;
+
+/**
+ * Events of a map under a namespace, with the namespace removed.
+ */
+export type ScopedEvents<TEvents extends EventMap, P extends string> =
+  string extends EventName<TEvents> ? EventMap : {
+    [K in EventName<TEvents> as K extends `${P}.${infer R}` ? R : never]: TEvents[K]
+  };
+
+interface Subscriber {
+  callback: AnyCallback;
+  /** The subscribed callback, when `callback` wraps it with timing options. */
+  source?: AnyCallback;
+  id: string;
+  priority: number;
+  withContext: boolean;
+  internal: boolean;
+}
+
+interface ReplayRule {
+  wildcard: string;
+  pattern: RegExp;
+  size: number;
+}
 
 interface Pattern {
+  wildcard: string;
   pattern: RegExp;
-  callbacks: Array<[EventCallback, string]>;
+  callbacks: Array<Subscriber>;
+}
+
+/**
+ * Options for {@link EventHandler.subscribe}.
+ */
+export interface SubscribeOptions {
+  /** Higher priorities run first, defaults to 0. */
+  priority?: number;
+  /** Also receive the {@link EventContext} after the id on every dispatch mode. */
+  withContext?: boolean;
+  /** Milliseconds to wait after the last dispatch before running the callback once. */
+  debounce?: number;
+  /** Milliseconds between runs, the first dispatch runs right away and the last one at the end. */
+  throttle?: number;
+  /**
+   * Hides the subscription from `listEvents`, `listSubscribers`, `hasSubscribers`
+   * and `countSubscribers` and skips the replay of buffered events, for plumbing such as an `EventBridge`.
+   */
+  internal?: boolean;
+}
+
+/**
+ * Options for batched subscriptions, see {@link EventHandler.subscribe}.
+ */
+export interface BatchSubscribeOptions extends SubscribeOptions {
+  /** Collects the payloads until the next microtask, or for the given milliseconds. */
+  batch: 'microtask' | number;
+}
+
+/**
+ * Callback of a batched subscription, receiving the collected payloads
+ * followed by the subscription id and, with `withContext`, the context of
+ * the last dispatch.
+ */
+export type BatchCallback<P extends any[] = any[]> = (payloads: P[], id: string, context?: EventContext) => any;
+
+/**
+ * Context passed as the last argument to callbacks run by {@link EventHandler.dispatchOrdered},
+ * or on every dispatch to callbacks subscribed with `withContext`.
+ */
+export interface EventContext {
+  /** The dispatched event name. */
+  event: string;
+  /** Whether a callback already stopped the propagation. */
+  stopped: boolean;
+  /** Prevents the remaining lower priority callbacks from running on ordered dispatches. */
+  stopPropagation: () => void;
+}
+
+/**
+ * Information about the subscriber that failed, passed to the `onError` hook.
+ */
+export interface EventErrorInfo {
+  /** The dispatched event name. */
+  event: string;
+  /** The identifier of the failing subscription. */
+  id: string;
+  /** The data the event was dispatched with. */
+  data: any[];
+}
+
+/**
+ * Hook called with the error of any failing callback.
+ */
+export type EventErrorHook = (error: any, info: EventErrorInfo) => void;
+
+/**
+ * Options for the {@link EventHandler} constructor.
+ */
+export interface EventHandlerOptions {
+  /** Hook to isolate failing callbacks, see {@link EventHandler.onError}. */
+  onError?: EventErrorHook;
+}
+
+/**
+ * Outcome of one subscriber returned by {@link EventHandler.dispatchSettled}.
+ */
+export interface DispatchReport {
+  /** The identifier of the subscription. */
+  id: string;
+  /** Whether the callback resolved or failed. */
+  status: 'fulfilled' | 'rejected';
+  /** The callback response when fulfilled. */
+  value?: any;
+  /** The thrown error when rejected. */
+  error?: any;
+  /** Milliseconds the callback took to settle. */
+  duration: number;
+}
+
+/**
+ * The dispatch method that started a middleware pipeline.
+ */
+export type DispatchMode = 'dispatch' | 'ordered' | 'settled';
+
+/**
+ * Context shared by the middlewares of one dispatch.
+ */
+export interface MiddlewareContext {
+  /** The dispatched event name. */
+  event: string;
+  /** The data passed to the callbacks, can be replaced. */
+  data: any[];
+  /** The dispatch method that was called. */
+  mode: DispatchMode;
+}
+
+/**
+ * Middleware registered with {@link EventHandler.use}. Call `next()` to
+ * continue with the next middleware and the callbacks, and return its
+ * responses; skip it to block the event.
+ */
+export type EventMiddleware = (context: MiddlewareContext, next: () => Promise<any[]>) => any[] | void | Promise<any[] | void>;
+
+/**
+ * Dispatch recorded by {@link createDebugMiddleware}.
+ */
+export interface DebugEntry {
+  /** The dispatched event name. */
+  event: string;
+  /** The data the event was dispatched with. */
+  data: any[];
+  /** The dispatch method that was called. */
+  mode: DispatchMode;
+  /** Epoch milliseconds when the dispatch started. */
+  timestamp: number;
+  /** Milliseconds the rest of the pipeline and the callbacks took. */
+  duration: number;
+  /** The dispatch responses, when it resolved. */
+  responses?: any[];
+  /** The thrown error, when it rejected. */
+  error?: any;
+}
+
+/**
+ * Middleware returned by {@link createDebugMiddleware}.
+ */
+export interface DebugMiddleware extends EventMiddleware {
+  /** The recorded dispatches, oldest first. */
+  entries: () => DebugEntry[];
+  /** Drops the recorded dispatches. */
+  clear: () => void;
+}
+
+/**
+ * Sorts subscribers from the highest to the lowest priority keeping the subscription order.
+ */
+const byPriority = (a: Subscriber, b: Subscriber): number => b.priority - a.priority;
+
+/**
+ * Options for {@link EventHandler.waitFor}.
+ */
+export interface WaitForOptions<P extends any[] = any[]> {
+  /** Milliseconds to wait before rejecting, no timeout when omitted. */
+  timeout?: number;
+  /** Only resolve when the dispatched data passes this check. */
+  filter?: (...data: P) => boolean;
 }
 
 /**
  * Class EventHandler to manage event subscriptions and dispatching.
+ * An {@link EventMap} can be given to type the data of every event.
  *
  * @example
  * ```ts
  * const handler = new EventHandler();
  * handler.subscribe('say', msg => console.log(msg), 'id1');
  * handler.dispatch('say', 'hello');
+ *
+ * const typed = new EventHandler<{ 'user.login': [user: User] }>();
+ * typed.subscribe('user.*', user => console.log(user.name), 'id2');
+ * typed.dispatch('user.login', user);
  * ```
  */
-export class EventHandler {
-  private events: Record<string, Array<[EventCallback, string]>>;
+export class EventHandler<TEvents extends EventMap = EventMap> {
+  private events: Record<string, Array<Subscriber>>;
   private patterns: Array<Pattern>;
-  private cache: Record<string, Array<[EventCallback, string]>>;
+  private cache: Record<string, Array<Subscriber>>;
+  private replayRules: Array<ReplayRule> = [];
+  private middlewares: Array<EventMiddleware> = [];
+  private buffers: Record<string, any[][]> = {};
+  private waitForCount: number = 0;
+
+  /**
+   * Global hook for failing callbacks. When set, a callback that throws or
+   * rejects is reported here and resolves as `undefined` instead of making
+   * the whole dispatch reject. Failures outside a dispatch, such as replays
+   * to late subscribers or debounced, throttled and batched callbacks, are logged with `console.error` when it is not set.
+   *
+   * @example
+   * ```ts
+   * handler.onError = (error, { event, id }) => console.error(event, id, error);
+   * ```
+   */
+  onError?: EventErrorHook;
 
   /**
    * Construct an instance of EventHandler.
+   * @param options - Handler options such as the `onError` hook.
    */
-  constructor() {
+  constructor({ onError }: EventHandlerOptions = {}) {
     this.events = {};
     this.patterns = [];
     this.cache = {};
+    this.onError = onError;
   }
 
   /**
@@ -58,20 +329,173 @@ export class EventHandler {
    * await handler.dispatch('say', 'hi');
    * ```
    */
-  async dispatch(event: string, ...data: any[]): Promise<any[]> {
-    if (this.cache[event]) {
-      const promises = this.cache[event].map(([callback, id]) => callback(...data, id));
-      return await Promise.all(promises);
+  async dispatch<K extends EventName<TEvents>>(event: K, ...data: TEvents[K]): Promise<any[]> {
+    return await this.pipeline(event, data, 'dispatch', data => {
+      this.record(event, data);
+      const context = this.createContext(event);
+      const promises = this.getSubscribers(event).map(subscriber =>
+        this.invoke(event, subscriber, data, subscriber.withContext ? context : undefined));
+      return Promise.all(promises);
+    });
+  }
+
+  /**
+   * Dispatches an event to all subscribed callbacks without rejecting on their errors.
+   * @param event - The event name to dispatch.
+   * @param data - Data to be passed to the callback function.
+   * @returns A promise resolved with a report for each subscriber.
+   *
+   * @example
+   * ```ts
+   * const reports = await handler.dispatchSettled('save', doc);
+   * reports.filter(r => r.status === 'rejected').forEach(r => console.error(r.id, r.error));
+   * ```
+   */
+  async dispatchSettled<K extends EventName<TEvents>>(event: K, ...data: TEvents[K]): Promise<DispatchReport[]> {
+    return await this.pipeline(event, data, 'settled', data => {
+      this.record(event, data);
+      const context = this.createContext(event);
+      const promises = this.getSubscribers(event).map(async ({ callback, id, withContext }): Promise<DispatchReport> => {
+        const start = Date.now();
+        try {
+          const value = await callback(...data, id, ...(withContext ? [context] : []));
+          return { id, status: 'fulfilled', value, duration: Date.now() - start };
+        } catch (error) {
+          if (this.onError) this.onError(error, { event, id, data });
+          return { id, status: 'rejected', error, duration: Date.now() - start };
+        }
+      });
+      return Promise.all(promises);
+    });
+  }
+
+  /**
+   * Dispatches an event running the callbacks one after another from the
+   * highest to the lowest priority. Each callback receives an {@link EventContext}
+   * after its id and can call `stopPropagation()` to skip the rest.
+   * @param event - The event name to dispatch.
+   * @param data - Data to be passed to the callback function.
+   * @returns A promise resolved with the responses of the callbacks that ran.
+   *
+   * @example
+   * ```ts
+   * handler.subscribe('before-save', (doc, id, ctx) => {
+   *   if (!doc.valid) ctx.stopPropagation();
+   * }, 'validator', { priority: 10 });
+   * await handler.dispatchOrdered('before-save', doc);
+   * ```
+   */
+  async dispatchOrdered<K extends EventName<TEvents>>(event: K, ...data: TEvents[K]): Promise<any[]> {
+    return await this.pipeline(event, data, 'ordered', async data => {
+      this.record(event, data);
+      const context = this.createContext(event);
+      const responses: any[] = [];
+      for (const subscriber of this.getSubscribers(event)) {
+        responses.push(await this.invoke(event, subscriber, data, context));
+        if (context.stopped) break;
+      }
+      return responses;
+    });
+  }
+
+  /**
+   * Registers a middleware that runs before the callbacks on every dispatch.
+   * Middlewares run in registration order, can read or replace `context.data`,
+   * and block the event by not calling `next()`.
+   * @param middleware - The middleware to register.
+   * @returns A function that removes the middleware.
+   *
+   * @example
+   * ```ts
+   * const remove = handler.use(async (context, next) => {
+   *   if (context.event === 'save' && !context.data[0]) return []; // blocked
+   *   context.data = context.data.map(normalize);
+   *   return next();
+   * });
+   * remove();
+   * ```
+   */
+  use(middleware: EventMiddleware): () => void {
+    this.middlewares.push(middleware);
+    return () => {
+      this.middlewares = this.middlewares.filter(m => m !== middleware);
+    };
+  }
+
+  /**
+   * Runs the middlewares and then the dispatch itself with the resulting data.
+   * @param event - The dispatched event name.
+   * @param data - The dispatched data.
+   * @param mode - The dispatch method that was called.
+   * @param run - Runs the callbacks with the final data.
+   * @returns A promise resolved with the dispatch responses, empty when blocked.
+   */
+  private async pipeline<T>(event: string, data: any[], mode: DispatchMode, run: (data: any[]) => Promise<T[]>): Promise<T[]> {
+    const context: MiddlewareContext = { event, data, mode };
+    const middlewares = [...this.middlewares];
+    const next = async (index: number): Promise<any[]> => {
+      if (index === middlewares.length) return await run(context.data);
+      const responses = await middlewares[index](context, () => next(index + 1));
+      return responses || [];
+    };
+    return await next(0);
+  }
+
+  /**
+   * Creates the context shared by the callbacks of one dispatch.
+   * @param event - The dispatched event name.
+   * @returns The event context.
+   */
+  private createContext(event: string): EventContext {
+    const context: EventContext = {
+      event,
+      stopped: false,
+      stopPropagation: () => { context.stopped = true; }
+    };
+    return context;
+  }
+
+  /**
+   * Runs a subscriber callback, reporting its failure to `onError` when set.
+   * @param event - The dispatched event name.
+   * @param subscriber - The subscriber to run.
+   * @param data - Data to be passed to the callback function.
+   * @param context - Context passed after the subscription id, if any.
+   * @returns A promise resolved with the callback response.
+   */
+  private async invoke(event: string, { callback, id }: Subscriber, data: any[], context?: EventContext): Promise<any> {
+    try {
+      return await callback(...data, id, ...(context ? [context] : []));
+    } catch (error) {
+      if (!this.onError) throw error;
+      this.onError(error, { event, id, data });
     }
+  }
+
+  /**
+   * Reports the failure of a callback no dispatch is waiting for, so it does
+   * not end up as an unhandled rejection.
+   * @param error - The thrown or rejected error.
+   * @param info - The failing subscriber.
+   */
+  private reportDetached(error: any, info: EventErrorInfo): void {
+    if (this.onError) this.onError(error, info);
+    else console.error(`EventHandler: subscriber "${info.id}" failed on "${info.event}"`, error);
+  }
+
+  /**
+   * Gets the subscribers of an event sorted by priority, using the cache when possible.
+   * @param event - The event name.
+   * @returns The subscribers for the event.
+   */
+  private getSubscribers(event: string): Array<Subscriber> {
+    if (this.cache[event]) return this.cache[event];
 
     const callbacks = this.events[event] || [];
     const matchedPatterns = this.patterns.filter(({ pattern }) => pattern.test(event)).flatMap(p => p.callbacks);
-    
-    this.cache[event] = [...callbacks, ...matchedPatterns];
 
-    const allCallbacks = [...callbacks, ...matchedPatterns];
-    const promises = allCallbacks.map(([callback, id]) => callback(...data, id));
-    return await Promise.all(promises);
+    this.cache[event] = [...callbacks, ...matchedPatterns].sort(byPriority);
+    return this.cache[event];
   }
 
   /**
@@ -79,13 +503,41 @@ export class EventHandler {
    * @param eventString - The event name or pattern to subscribe to.
    * @param callback - The callback function to execute when the event is dispatched.
    * @param id - An identifier for the subscription, used for unsubscribing.
+   * @param options - Subscription options such as the priority, `debounce`,
+   * `throttle` or `batch`. Batched callbacks receive an array of the collected payloads.
    *
    * @example
    * ```ts
    * handler.subscribe('user.*', cb, 'id');
+   * handler.subscribe('user.*', first, 'id2', { priority: 10 });
+   * handler.subscribe('user.*', (user, id, ctx) => console.log(ctx.event, user), 'id3', { withContext: true });
+   * handler.subscribe('scroll', onScroll, 'id4', { throttle: 50 });
+   * handler.subscribe('store.changed', changes => save(changes), 'id5', { batch: 'microtask' });
    * ```
    */
-  subscribe(eventString: string, callback: EventCallback, id: string): void {
+  subscribe<S extends string>(
+    eventString: S,
+    callback: BatchCallback<EventPayload<TEvents, S>>,
+    id: string,
+    options: BatchSubscribeOptions
+  ): void;
+  subscribe<S extends string>(
+    eventString: S,
+    callback: EventCallback<EventPayload<TEvents, S>>,
+    id: string,
+    options?: SubscribeOptions
+  ): void;
+  subscribe(eventString: string, callback: AnyCallback, id: string, options: SubscribeOptions = {}): void {
+    const { priority = 0, withContext = false, debounce, throttle, internal = false } = options;
+    const { batch } = options as Partial<BatchSubscribeOptions>;
+    const timed = debounce !== undefined || throttle !== undefined || batch !== undefined;
+    // timed callbacks always get the context to report their delayed errors
+    const subscriber: Subscriber = { callback, id, priority, withContext: withContext || timed, internal };
+    if (timed) {
+      subscriber.source = callback;
+      subscriber.callback = this.timed(callback, { debounce, throttle, batch }, withContext,
+        () => this.isSubscribed(subscriber));
+    }
     const events = eventString.split(/[\s,]+/);
     events.forEach(e => {
       if (e.includes('*')) {
@@ -93,21 +545,90 @@ export class EventHandler {
         const regex = this.wildcardToRegExp(e);
         const existingPattern = this.patterns.find(p => p.pattern.source === regex.source);
         if (existingPattern) {
-          existingPattern.callbacks.push([callback, id]);
+          existingPattern.callbacks.push(subscriber);
         } else {
-          this.patterns.push({ pattern: regex, callbacks: [[callback, id]] });
+          this.patterns.push({ wildcard: e, pattern: regex, callbacks: [subscriber] });
         }
+        this.updateCacheWithPattern(regex);
       } else {
         // Handle direct event subscriptions
         if (!this.events[e]) this.events[e] = [];
-        this.events[e].push([callback, id]);
-        if (!this.cache[e]) this.cache[e] = [];
-        this.cache[e].push([callback, id]);
+        this.events[e].push(subscriber);
+        this.updateCache(e);
       }
     });
+    if (!internal) this.replayTo(events, subscriber);
   }
 
   /**
+   * Subscribes to an event or a pattern of events only for the first dispatch.
+   * When several events are given the subscription is removed from all of them
+   * after the first one fires.
+   * @param eventString - The event name or pattern to subscribe to.
+   * @param callback - The callback function to execute when the event is dispatched.
+   * @param id - An identifier for the subscription, used for unsubscribing.
+   * @param options - Subscription options such as the priority.
+   *
+   * @example
+   * ```ts
+   * handler.once('app.ready', () => console.log('ready'), 'id');
+   * ```
+   */
+  once<S extends string>(
+    eventString: S,
+    callback: EventCallback<EventPayload<TEvents, S>>,
+    id: string,
+    options?: SubscribeOptions
+  ): void {
+    let fired = false;
+    const onceCallback: AnyCallback = (...data: any[]) => {
+      if (fired) return;
+      fired = true;
+      this.removeWhere(subscriber => (subscriber.source || subscriber.callback) === onceCallback);
+      return (callback as AnyCallback)(...data);
+    };
+    this.subscribe(eventString, onceCallback, id, options);
+  }
+
+  /**
+   * Waits for the next dispatch of an event or a pattern of events.
+   * @param eventString - The event name or pattern to wait for.
+   * @param options - Timeout and filter for the awaited dispatch.
+   * @returns A promise resolved with the dispatched data.
+   *
+   * @example
+   * ```ts
+   * const [user] = await handler.waitFor('user.login', { timeout: 5000 });
+   * ```
+   */
+  waitFor<S extends string>(
+    eventString: S,
+    { timeout, filter }: WaitForOptions<EventPayload<TEvents, S>> = {}
+  ): Promise<EventPayload<TEvents, S>> {
+    const id = `waitFor-${++this.waitForCount}`;
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let settled = false;
+      const callback: AnyCallback = (...args: any[]) => {
+        // the id, and the context on ordered dispatches, follow the data
+        const data = args.slice(0, args.lastIndexOf(id)) as EventPayload<TEvents, S>;
+        if (filter && !filter(...data)) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+        this.unsubscribe(eventString as EventPattern<TEvents, S>, id);
+        resolve(data);
+      };
+      this.subscribe(eventString, callback, id);
+      if (typeof timeout === 'number' && !settled) {
+        timer = setTimeout(() => {
+          this.unsubscribe(eventString as EventPattern<TEvents, S>, id);
+          reject(new Error(`Timeout waiting for event ${eventString}`));
+        }, timeout);
+      }
+    });
+  }
+
+  /**
    * Unsubscribes from an event or pattern of events.
    * @param eventString - The event name or pattern to unsubscribe from.
    * @param id - The identifier of the subscription to remove.
@@ -117,54 +638,541 @@ export class EventHandler {
    * handler.unsubscribe('user.*', 'id');
    * ```
    */
-  unsubscribe(eventString: string, id: string): void {
+  unsubscribe<S extends string>(eventString: EventPattern<TEvents, S>, id: string): void {
     const events = eventString.split(/[\s,]+/);
     events.forEach(e => {
       if (e.includes('*')) {
         const regex = this.wildcardToRegExp(e);
         this.patterns = this.patterns.filter(pattern => {
           if (pattern.pattern.source !== regex.source) return true;
-          pattern.callbacks = pattern.callbacks.filter(([, callbackId]) => callbackId !== id);
+          pattern.callbacks = pattern.callbacks.filter(subscriber => subscriber.id !== id);
           return pattern.callbacks.length > 0;
         });
-        this.updateCacheWithPattern(regex, id);
+        this.updateCacheWithPattern(regex);
       } else {
         if (!this.events[e]) return;
-        this.events[e] = this.events[e].filter(([, eventId]) => eventId !== id);
-        this.updateCache(e, id);
+        this.events[e] = this.events[e].filter(subscriber => subscriber.id !== id);
+        this.updateCache(e);
       }
     });
   }
 
   /**
-   * Remove an event or pattern from the cache based on id.
-   * @param event - The event name or pattern.
-   * @param id - The identifier of the subscription to remove from the cache.
+   * Removes every subscription registered with the given id.
+   * @param id - The identifier of the subscriptions to remove.
+   *
+   * @example
+   * ```ts
+   * handler.unsubscribeAll('my-component');
+   * ```
+   */
+  unsubscribeAll(id: string): void {
+    this.removeWhere(subscriber => subscriber.id === id);
+  }
+
+  /**
+   * Removes every subscription whose id starts with the given prefix.
+   * @param prefix - The prefix of the identifiers to remove.
+   *
+   * @example
+   * ```ts
+   * handler.unsubscribeByPrefix('component-');
+   * ```
+   */
+  unsubscribeByPrefix(prefix: string): void {
+    this.removeWhere(subscriber => subscriber.id.startsWith(prefix));
+  }
+
+  /**
+   * Creates a child handler whose events are namespaced with a prefix.
+   * @param prefix - The namespace prepended to every event, separated by a dot.
+   * @returns A scope that can be disposed in one call.
+   *
+   * @example
+   * ```ts
+   * const modal = handler.scope('modal');
+   * modal.subscribe('open', cb, 'id'); // listens to 'modal.open'
+   * modal.dispose();
+   * ```
+   */
+  scope<P extends string>(prefix: P): EventScope<ScopedEvents<TEvents, P>> {
+    return new EventScope(this, prefix);
+  }
+
+  /**
+   * Removes the subscriptions matching a predicate from events, patterns and cache.
+   * @param predicate - Returns true for the subscriptions to remove.
+   */
+  private removeWhere(predicate: (subscriber: Subscriber) => boolean): void {
+    const keep = (subscriber: Subscriber) => !predicate(subscriber);
+    Object.keys(this.events).forEach(event => {
+      this.events[event] = this.events[event].filter(keep);
+      if (this.events[event].length === 0) delete this.events[event];
+    });
+    this.patterns = this.patterns.filter(pattern => {
+      pattern.callbacks = pattern.callbacks.filter(keep);
+      return pattern.callbacks.length > 0;
+    });
+    Object.keys(this.cache).forEach(cacheEvent => {
+      this.cache[cacheEvent] = this.cache[cacheEvent].filter(keep);
+      if (this.cache[cacheEvent].length === 0) delete this.cache[cacheEvent];
+    });
+  }
+
+  /**
+   * Keeps the last dispatched payloads of an event or pattern of events, so
+   * late subscribers, wildcards included, receive them as soon as they subscribe.
+   * A size of 1 makes the events sticky.
+   * @param eventString - The event name or pattern to buffer.
+   * @param size - How many payloads to keep per event.
+   *
+   * @example
+   * ```ts
+   * handler.replay('auth.ready, config.loaded');
+   * await handler.dispatch('auth.ready', user);
+   * handler.subscribe('auth.*', user => console.log(user), 'late'); // logs right away
+   * ```
+   */
+  replay(eventString: string, size: number = 1): void {
+    const events = eventString.split(/[\s,]+/);
+    events.forEach(e => {
+      const pattern = this.wildcardToRegExp(e);
+      this.replayRules = this.replayRules.filter(rule => rule.pattern.source !== pattern.source);
+      this.replayRules.push({ wildcard: e, pattern, size });
+    });
+  }
+
+  /**
+   * Stops buffering an event or pattern of events and drops what was buffered.
+   * @param eventString - The event name or pattern given to {@link EventHandler.replay}.
+   *
+   * @example
+   * ```ts
+   * handler.clearReplay('auth.ready');
+   * ```
+   */
+  clearReplay(eventString: string): void {
+    const events = eventString.split(/[\s,]+/);
+    events.forEach(e => {
+      const pattern = this.wildcardToRegExp(e);
+      this.replayRules = this.replayRules.filter(rule => rule.pattern.source !== pattern.source);
+      Object.keys(this.buffers).forEach(event => {
+        if (pattern.test(event)) delete this.buffers[event];
+      });
+    });
+  }
+
+  /**
+   * Buffers the data of a dispatched event when a replay rule matches it.
+   * @param event - The dispatched event name.
+   * @param data - The dispatched data.
+   */
+  private record(event: string, data: any[]): void {
+    const size = this.replayRules.reduce((max, rule) =>
+      rule.pattern.test(event) ? Math.max(max, rule.size) : max, 0);
+    if (!size) return;
+    const buffer = this.buffers[event] || [];
+    buffer.push(data);
+    this.buffers[event] = buffer.slice(-size);
+  }
+
+  /**
+   * Delivers the buffered payloads of the subscribed events to a new subscriber.
+   * @param events - The subscribed event names or patterns.
+   * @param subscriber - The new subscriber.
+   */
+  private replayTo(events: string[], subscriber: Subscriber): void {
+    const buffered = Object.keys(this.buffers).filter(event => events.some(e =>
+      e.includes('*') ? this.wildcardToRegExp(e).test(event) : e === event));
+    buffered.forEach(event => {
+      const context = this.createContext(event);
+      this.buffers[event].forEach(data =>
+        this.invoke(event, subscriber, data, subscriber.withContext ? context : undefined)
+          .catch(error => this.reportDetached(error, { event, id: subscriber.id, data })));
+    });
+  }
+
+  /**
+   * Wraps a callback to run it debounced, throttled or batched.
+   * @param callback - The subscribed callback.
+   * @param options - The timing options.
+   * @param withContext - Whether the callback asked for the context.
+   * @param isActive - Tells whether the subscription still exists when the callback is due.
+   * @returns The callback to store in the subscriber, it expects the context as last argument.
    */
-  private updateCache(event: string, id: string): void {
-    if (this.cache[event]) {
-      this.cache[event] = this.cache[event].filter(([, eventId]) => eventId !== id);
-      if (this.cache[event].length === 0) {
-        delete this.cache[event];
+  private timed(
+    callback: AnyCallback,
+    { debounce, throttle, batch }: { debounce?: number, throttle?: number, batch?: 'microtask' | number },
+    withContext: boolean,
+    isActive: () => boolean
+  ): AnyCallback {
+    const run = (args: any[], callArgs: any[]) => {
+      if (!isActive()) return;
+      const { event } = args[args.length - 1] as EventContext;
+      const id = args[args.length - 2];
+      const report = (error: any) => this.reportDetached(error, { event, id, data: args.slice(0, -2) });
+      try {
+        const response = callback(...callArgs);
+        if (response && typeof response.then === 'function') response.then(undefined, report);
+      } catch (error) {
+        report(error);
+      }
+    };
+    const call = (args: any[]) => run(args, withContext ? args : args.slice(0, -1));
+
+    if (batch !== undefined) {
+      let payloads: any[][] = [];
+      let last: any[] = [];
+      const flush = () => {
+        const callArgs = [payloads, ...last.slice(-2, withContext ? undefined : -1)];
+        const args = [...last];
+        payloads = [];
+        run(args, callArgs);
+      };
+      return (...args: any[]) => {
+        if (!payloads.length) {
+          if (batch === 'microtask') Promise.resolve().then(flush);
+          else setTimeout(flush, batch);
+        }
+        payloads.push(args.slice(0, -2));
+        last = args;
+      };
+    }
+
+    if (debounce !== undefined) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      return (...args: any[]) => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          timer = undefined;
+          call(args);
+        }, debounce);
+      };
+    }
+
+    let waiting = false;
+    let pending: any[] | undefined;
+    const release = () => {
+      if (!pending) {
+        waiting = false;
+        return;
+      }
+      call(pending);
+      pending = undefined;
+      setTimeout(release, throttle);
+    };
+    return (...args: any[]) => {
+      if (waiting) {
+        pending = args;
+        return;
       }
+      waiting = true;
+      call(args);
+      setTimeout(release, throttle);
+    };
+  }
+
+  /**
+   * Checks whether a subscriber is still registered on any event or pattern.
+   * @param subscriber - The subscriber to look for.
+   * @returns True when it has not been unsubscribed.
+   */
+  private isSubscribed(subscriber: Subscriber): boolean {
+    return Object.values(this.events).some(list => list.includes(subscriber))
+      || this.patterns.some(({ callbacks }) => callbacks.includes(subscriber));
+  }
+
+  /**
+   * Lists the events and wildcard patterns with at least one subscription.
+   * @returns The event names and patterns.
+   *
+   * @example
+   * ```ts
+   * handler.listEvents(); // ['say', 'user.*']
+   * ```
+   */
+  listEvents(): string[] {
+    const visible = (subscribers: Subscriber[]) => subscribers.some(({ internal }) => !internal);
+    const events = Object.keys(this.events).filter(e => visible(this.events[e]));
+    return [...events, ...this.patterns.filter(({ callbacks }) => visible(callbacks)).map(({ wildcard }) => wildcard)];
+  }
+
+  /**
+   * Lists the subscription ids that would receive an event, in dispatch order.
+   * When a wildcard pattern is given, the ids subscribed to that pattern are listed.
+   * @param event - The event name or wildcard pattern.
+   * @returns The subscription ids.
+   *
+   * @example
+   * ```ts
+   * handler.listSubscribers('user.login'); // ['id', 'wildcardId']
+   * ```
+   */
+  listSubscribers(event: string): string[] {
+    if (event.includes('*')) {
+      const regex = this.wildcardToRegExp(event);
+      const pattern = this.patterns.find(p => p.pattern.source === regex.source);
+      return pattern ? pattern.callbacks.filter(({ internal }) => !internal).map(({ id }) => id) : [];
     }
+    return this.getSubscribers(event).filter(({ internal }) => !internal).map(({ id }) => id);
+  }
+
+  /**
+   * Checks whether an event has any subscriber.
+   * @param event - The event name or wildcard pattern.
+   * @returns True when at least one subscription would receive it.
+   *
+   * @example
+   * ```ts
+   * if (handler.hasSubscribers('save')) await handler.dispatch('save', doc);
+   * ```
+   */
+  hasSubscribers(event: string): boolean {
+    return this.countSubscribers(event) > 0;
+  }
+
+  /**
+   * Counts the subscriptions that would receive an event.
+   * @param event - The event name or wildcard pattern.
+   * @returns The number of subscriptions.
+   *
+   * @example
+   * ```ts
+   * handler.countSubscribers('save'); // 2
+   * ```
+   */
+  countSubscribers(event: string): number {
+    return this.listSubscribers(event).length;
+  }
+
+  /**
+   * Invalidates the cached subscribers of an event so they are rebuilt on the next dispatch.
+   * @param event - The event name.
+   */
+  private updateCache(event: string): void {
+    delete this.cache[event];
   }
 
   /**
-   * Update cache by removing pattern-matching events based on id.
+   * Invalidates the cached subscribers of every event matching a pattern.
    * @param regex - The regular expression pattern to match against.
-   * @param id - The identifier for the subscription to be removed from the cache.
    */
-  private updateCacheWithPattern(regex: RegExp, id: string): void {
+  private updateCacheWithPattern(regex: RegExp): void {
     Object.keys(this.cache).forEach(cacheEvent => {
-      if (regex.test(cacheEvent)) {
-        this.cache[cacheEvent] = this.cache[cacheEvent].filter(([, callbackId]) => callbackId !== id);
-        if (this.cache[cacheEvent].length === 0) {
-          delete this.cache[cacheEvent];
-        }
-      }
+      if (regex.test(cacheEvent)) delete this.cache[cacheEvent];
     });
   }
 }
 
+/**
+ * Child handler returned by {@link EventHandler.scope}, every event is
+ * prefixed with the scope namespace and the subscriptions made through it
+ * are removed together by {@link EventScope.dispose}.
+ *
+ * @example
+ * ```ts
+ * const modal = new EventScope(handler, 'modal');
+ * modal.subscribe('*', cb, 'id'); // listens to 'modal.*'
+ * await modal.dispatch('close'); // dispatches 'modal.close'
+ * modal.dispose();
+ * ```
+ */
+export class EventScope<TEvents extends EventMap = EventMap> {
+  private handler: EventHandler<any>;
+  private subscriptions: Array<[string, string]> = [];
+  private children: Array<EventScope<any>> = [];
+  readonly prefix: string;
+
+  /**
+   * Construct an instance of EventScope.
+   * @param handler - The handler the scope delegates to.
+   * @param prefix - The namespace prepended to every event.
+   */
+  constructor(handler: EventHandler<any>, prefix: string) {
+    this.handler = handler;
+    this.prefix = prefix;
+  }
+
+  /**
+   * Prepends the scope prefix to an event name or list of events.
+   * @param eventString - The event name or pattern.
+   * @returns The namespaced event string.
+   */
+  private namespace(eventString: string): string {
+    return eventString.split(/[\s,]+/).map(e => `${this.prefix}.${e}`).join(',');
+  }
+
+  /**
+   * Dispatches a namespaced event, see {@link EventHandler.dispatch}.
+   * @param event - The event name to dispatch.
+   * @param data - Data to be passed to the callback function.
+   * @returns A promise resolved with an array of callback responses.
+   */
+  dispatch<K extends EventName<TEvents>>(event: K, ...data: TEvents[K]): Promise<any[]> {
+    return this.handler.dispatch(this.namespace(event), ...data);
+  }
+
+  /**
+   * Dispatches a namespaced event in priority order, see {@link EventHandler.dispatchOrdered}.
+   * @param event - The event name to dispatch.
+   * @param data - Data to be passed to the callback function.
+   * @returns A promise resolved with the responses of the callbacks that ran.
+   */
+  dispatchOrdered<K extends EventName<TEvents>>(event: K, ...data: TEvents[K]): Promise<any[]> {
+    return this.handler.dispatchOrdered(this.namespace(event), ...data);
+  }
+
+  /**
+   * Dispatches a namespaced event without rejecting, see {@link EventHandler.dispatchSettled}.
+   * @param event - The event name to dispatch.
+   * @param data - Data to be passed to the callback function.
+   * @returns A promise resolved with a report for each subscriber.
+   */
+  dispatchSettled<K extends EventName<TEvents>>(event: K, ...data: TEvents[K]): Promise<DispatchReport[]> {
+    return this.handler.dispatchSettled(this.namespace(event), ...data);
+  }
+
+  /**
+   * Subscribes to namespaced events, see {@link EventHandler.subscribe}.
+   * @param eventString - The event name or pattern to subscribe to.
+   * @param callback - The callback function to execute when the event is dispatched.
+   * @param id - An identifier for the subscription, used for unsubscribing.
+   * @param options - Subscription options such as the priority.
+   */
+  subscribe<S extends string>(
+    eventString: S,
+    callback: BatchCallback<EventPayload<TEvents, S>>,
+    id: string,
+    options: BatchSubscribeOptions
+  ): void;
+  subscribe<S extends string>(
+    eventString: S,
+    callback: EventCallback<EventPayload<TEvents, S>>,
+    id: string,
+    options?: SubscribeOptions
+  ): void;
+  subscribe(eventString: string, callback: AnyCallback, id: string, options?: SubscribeOptions): void {
+    const namespaced = this.namespace(eventString);
+    this.handler.subscribe(namespaced, callback, id, options);
+    this.subscriptions.push([namespaced, id]);
+  }
+
+  /**
+   * Subscribes to namespaced events for the first dispatch, see {@link EventHandler.once}.
+   * @param eventString - The event name or pattern to subscribe to.
+   * @param callback - The callback function to execute when the event is dispatched.
+   * @param id - An identifier for the subscription, used for unsubscribing.
+   * @param options - Subscription options such as the priority.
+   */
+  once<S extends string>(
+    eventString: S,
+    callback: EventCallback<EventPayload<TEvents, S>>,
+    id: string,
+    options?: SubscribeOptions
+  ): void {
+    const namespaced = this.namespace(eventString);
+    this.handler.once(namespaced, callback, id, options);
+    this.subscriptions.push([namespaced, id]);
+  }
+
+  /**
+   * Waits for the next dispatch of namespaced events, see {@link EventHandler.waitFor}.
+   * @param eventString - The event name or pattern to wait for.
+   * @param options - Timeout and filter for the awaited dispatch.
+   * @returns A promise resolved with the dispatched data.
+   */
+  waitFor<S extends string>(
+    eventString: S,
+    options?: WaitForOptions<EventPayload<TEvents, S>>
+  ): Promise<EventPayload<TEvents, S>> {
+    return this.handler.waitFor(this.namespace(eventString), options as WaitForOptions) as Promise<EventPayload<TEvents, S>>;
+  }
+
+  /**
+   * Buffers namespaced events for late subscribers, see {@link EventHandler.replay}.
+   * @param eventString - The event name or pattern to buffer.
+   * @param size - How many payloads to keep per event.
+   */
+  replay(eventString: string, size?: number): void {
+    this.handler.replay(this.namespace(eventString), size);
+  }
+
+  /**
+   * Unsubscribes from namespaced events, see {@link EventHandler.unsubscribe}.
+   * @param eventString - The event name or pattern to unsubscribe from.
+   * @param id - The identifier of the subscription to remove.
+   */
+  unsubscribe<S extends string>(eventString: EventPattern<TEvents, S>, id: string): void {
+    const namespaced = this.namespace(eventString);
+    this.handler.unsubscribe(namespaced, id);
+    this.subscriptions = this.subscriptions.filter(([e, i]) => e !== namespaced || i !== id);
+  }
+
+  /**
+   * Creates a nested scope, disposed together with this one.
+   * @param prefix - The namespace appended to the current one.
+   * @returns The nested scope.
+   */
+  scope<P extends string>(prefix: P): EventScope<ScopedEvents<TEvents, P>> {
+    const child = new EventScope<ScopedEvents<TEvents, P>>(this.handler, `${this.prefix}.${prefix}`);
+    this.children.push(child);
+    return child;
+  }
+
+  /**
+   * Removes every subscription made through this scope and its nested scopes.
+   */
+  dispose(): void {
+    this.children.forEach(child => child.dispose());
+    this.children = [];
+    this.subscriptions.forEach(([eventString, id]) => this.handler.unsubscribe(eventString, id));
+    this.subscriptions = [];
+  }
+}
+
+/**
+ * Creates a middleware that records the most recent dispatches with their timing
+ * in a ring buffer. Register it first to time the whole pipeline.
+ * @param options - Options for the debug middleware.
+ * @param options.size - How many dispatches to keep, defaults to 50.
+ * @param options.log - Called with every recorded entry, e.g. `console.debug`.
+ * @returns The debug middleware.
+ *
+ * @example
+ * ```ts
+ * const debug = createDebugMiddleware({ size: 100 });
+ * handler.use(debug);
+ * await handler.dispatch('save', doc);
+ * debug.entries(); // [{ event: 'save', data: [doc], mode: 'dispatch', duration: 2, ... }]
+ * ```
+ */
+export function createDebugMiddleware({
+  size = 50,
+  log
+}: { size?: number, log?: (entry: DebugEntry) => void } = {}): DebugMiddleware {
+  let buffer: DebugEntry[] = [];
+  const push = (entry: DebugEntry) => {
+    buffer.push(entry);
+    if (buffer.length > size) buffer.shift();
+    if (log) log(entry);
+  };
+  const middleware = async (context: MiddlewareContext, next: () => Promise<any[]>): Promise<any[]> => {
+    const { event, mode } = context;
+    const data = [...context.data];
+    const timestamp = Date.now();
+    try {
+      const responses = await next();
+      push({ event, data, mode, timestamp, duration: Date.now() - timestamp, responses });
+      return responses;
+    } catch (error) {
+      push({ event, data, mode, timestamp, duration: Date.now() - timestamp, error });
+      throw error;
+    }
+  };
+  return Object.assign(middleware, {
+    entries: () => [...buffer],
+    clear: () => { buffer = []; }
+  });
+}
+
 export default new EventHandler();
@@ -1,19 +1,510 @@
 import { md5 } from 'js-md5';
 
+import { EventHandler, EventScope } from './event-handler';
+
+/**
+ * A caller waiting for a request.
+ */
+interface Waiter {
+  resolve: (value: any) => void;
+  reject: (reason?: any) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * A call to {@link FetchQueue.addRequest} split into its parts.
+ */
+interface PreparedRequest {
+  source: InterceptedRequest;
+  hash: string;
+  /** Whether identical calls share the request and its cache entry. */
+  shared: boolean;
+  url: string;
+  options?: RequestInit;
+  parse?: ResponseParser;
+  priority: QueuePriority;
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
 /**
  * Options for the fetch request.
  */
 interface RequestOptions {
+  source: InterceptedRequest;
+  shared: boolean;
   url: string;
   options?: RequestInit;
-  resolve: ((value: any) => void)[];
-  reject: ((reason?: any) => void)[];
+  parse?: ResponseParser;
+  priority: QueuePriority;
+  timeout?: number;
+  host: string;
+  running: boolean;
+  controller: AbortController;
+  waiters: Waiter[];
+  /** Credential refreshes done when the request started. */
+  generation: number;
+  replayed: boolean;
+  /** Whether the request waits to be sent within a batch. */
+  batched: boolean;
+}
+
+/**
+ * How the response body is read once for every caller: a `Response` method
+ * name or a function receiving the response.
+ */
+export type ResponseParser = 'json' | 'text' | 'blob' | 'arrayBuffer' | ((response: any) => any);
+
+/**
+ * Lane of a queued request, higher lanes start first.
+ */
+export type QueuePriority = 'high' | 'normal' | 'low';
+
+const LANES: Record<QueuePriority, number> = { high: 0, normal: 1, low: 2 };
+
+/**
+ * Sorts the keys of plain objects and the entries of `URLSearchParams` so
+ * equivalent options serialize the same.
+ * @param {any} value - The value to normalize.
+ * @returns {any} - A value for `JSON.stringify`.
+ */
+function normalize(value: any): any {
+  if (typeof URLSearchParams !== 'undefined' && value instanceof URLSearchParams) {
+    const params = new URLSearchParams(value);
+    params.sort();
+    return params.toString();
+  }
+  if (Array.isArray(value)) return value.map(normalize);
+  if (!value || typeof value !== 'object') return value;
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) return value;
+  return Object.keys(value).sort().reduce((sorted: Record<string, any>, key) => {
+    sorted[key] = normalize(value[key]);
+    return sorted;
+  }, {});
+}
+
+/**
+ * Tells whether a body can be part of a request key. `FormData`, `Blob`,
+ * buffers and streams serialize to `{}`, so requests sending them are never shared.
+ * @param {any} body - The request body.
+ * @returns {boolean} - True for strings, `URLSearchParams`, plain objects and arrays.
+ */
+function isSerializableBody(body: any): boolean {
+  if (body === undefined || body === null || typeof body !== 'object') return true;
+  if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) return true;
+  const proto = Object.getPrototypeOf(body);
+  return Array.isArray(body) || proto === Object.prototype || proto === null;
+}
+
+/**
+ * Turns any `HeadersInit` into an object with lower case names.
+ * @param {HeadersInit} headers - The headers to normalize.
+ * @returns {Record<string, string>} - The headers by name.
+ */
+function normalizeHeaders(headers: HeadersInit): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  const add = (value: string, name: string) => {
+    normalized[name.toLowerCase()] = value;
+  };
+  if (typeof Headers !== 'undefined') new Headers(headers).forEach(add);
+  else if (Array.isArray(headers)) headers.forEach(([name, value]) => add(value, name));
+  else Object.entries(headers as Record<string, string>).forEach(([name, value]) => add(value, name));
+  return normalized;
+}
+
+/**
+ * Fetch options accepted by {@link FetchQueue.addRequest}.
+ */
+export interface FetchRequestInit extends Omit<RequestInit, 'priority'> {
+  /** Reads the body for every caller, overrides {@link FetchQueueOptions.parse}. */
+  parse?: ResponseParser;
+  /** Lane of the request, defaults to `'normal'`, replaces the fetch priority hint. */
+  priority?: QueuePriority;
+  /** Milliseconds the request may run, overrides {@link FetchQueueOptions.timeout}, 0 disables it. */
+  timeout?: number;
+}
+
+/**
+ * Rejection of the requests that run longer than their timeout.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await queue.addRequest('https://example.com/slow', { timeout: 5000 });
+ * } catch (error) {
+ *   if (error instanceof FetchTimeoutError) console.warn(`${error.url} timed out`);
+ * }
+ * ```
+ */
+export class FetchTimeoutError extends Error {
+  /** The URL of the request. */
+  url: string;
+  /** The timeout in milliseconds. */
+  timeout: number;
+
+  /**
+   * @param {string} url - The URL of the request.
+   * @param {number} timeout - The timeout in milliseconds.
+   */
+  constructor(url: string, timeout: number) {
+    super(`Request to ${url} timed out after ${timeout}ms`);
+    this.name = 'FetchTimeoutError';
+    this.url = url;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * A request as seen by the interceptors.
+ */
+export interface InterceptedRequest {
+  url: string;
+  options?: FetchRequestInit;
+}
+
+/**
+ * Changes a request before it is hashed and sent, either in place or by
+ * returning a new one. It runs synchronously so identical calls made in the
+ * same tick are still shared.
+ */
+export type RequestInterceptor = (request: InterceptedRequest) => InterceptedRequest | void;
+
+/**
+ * Inspects or replaces the response of `fetchFn` before it is parsed,
+ * returning nothing keeps the response. It gets the request as it was sent.
+ */
+export type ResponseInterceptor = (response: any, request: { url: string; options?: RequestInit }) => any;
+
+/**
+ * Credentials refresh, see {@link FetchQueueOptions.refresh}.
+ */
+export interface RefreshOptions {
+  /**
+   * Refreshes the credentials, e.g. the token the request interceptors add.
+   * It must not go through the same queue, which stays paused until it settles.
+   */
+  refresh: () => unknown;
+  /** Statuses that trigger the refresh, defaults to 401. */
+  statuses?: number[];
+}
+
+/**
+ * Payload of the {@link FetchQueueEvents}.
+ */
+export interface FetchQueueEvent {
+  /** The URL of the request, after the request interceptors. */
+  url: string;
+  /** The upper case method of the request. */
+  method: string;
+  /** The key shared by the identical calls. */
+  key: string;
+  /** Milliseconds since the request started, on success and error. */
+  duration?: number;
+  /** The rejection reason, on error. */
+  error?: any;
+}
+
+/**
+ * Events dispatched through {@link FetchQueue.events}.
+ */
+export type FetchQueueEvents = {
+  /** A request is sent. */
+  'request:start': [FetchQueueEvent];
+  /** A call joins a pending identical request. */
+  'request:dedup': [FetchQueueEvent];
+  /** A request resolves its callers. */
+  'request:success': [FetchQueueEvent];
+  /** A request rejects its callers, including timeouts and cancellations. */
+  'request:error': [FetchQueueEvent];
+  /** The last pending request settles. */
+  'queue:idle': [];
+};
+
+/**
+ * Snapshot returned by {@link FetchQueue.stats}.
+ */
+export interface FetchQueueStats {
+  /** Requests being fetched. */
+  inFlight: number;
+  /** Requests waiting for a free slot. */
+  queued: number;
+  /** Calls that reached the queue, cache hits excluded. */
+  calls: number;
+  /** Calls that joined a pending identical request. */
+  dedupHits: number;
+  /** `dedupHits` over `calls`, 0 without calls. */
+  dedupRatio: number;
+  /** Latency percentiles in milliseconds of the last settled requests. */
+  latency: { p50: number; p90: number; p99: number };
+}
+
+const LATENCY_SAMPLES = 1000;
+
+/**
+ * Batching of calls, see {@link FetchQueueOptions.batch}.
+ */
+export interface BatchOptions {
+  /** Whether a call, after the request interceptors, goes into a batch. */
+  match: (url: string, options?: RequestInit) => boolean;
+  /**
+   * Sends the collected requests as one, resolving with one result per request
+   * in the same order. An `Error` result rejects only its request.
+   */
+  batchFn: (requests: Array<{ url: string; options?: RequestInit }>) => Promise<any[]>;
+  /** Milliseconds calls are collected for, defaults to 10. */
+  window?: number;
+  /** Maximum requests per batch, a full batch is sent right away, defaults to 50. */
+  maxSize?: number;
+}
+
+/**
+ * Retry policy for failed requests, see {@link FetchQueueOptions.retry}.
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one, defaults to 3. */
+  attempts?: number;
+  /** Milliseconds before the first retry, doubled on every retry, defaults to 300. */
+  baseDelay?: number;
+  /** Maximum milliseconds between attempts, defaults to 30000. */
+  maxDelay?: number;
+  /** Random fraction of the delay, from 0 (none) to 1 (full jitter), defaults to 0.5. */
+  jitter?: number;
+  /** HTTP statuses that are retried, defaults to 408, 429, 500, 502, 503 and 504. */
+  statuses?: number[];
+  /** Whether a throwing `fetchFn` is retried, defaults to true. */
+  networkErrors?: boolean;
+}
+
+/**
+ * A cached response, see {@link CacheStore}.
+ */
+export interface CacheEntry {
+  /** The value the fetch function resolved with. */
+  value: any;
+  /** Timestamp in milliseconds after which the entry is stale. */
+  expires: number;
+}
+
+/**
+ * Storage for cached responses, methods may return promises so adapters can
+ * wrap asynchronous storages such as IndexedDB.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  /** Stored keys, least recently used first. */
+  keys(): string[] | Promise<string[]>;
+  clear(): void | Promise<void>;
 }
 
+/**
+ * Cache settings, see {@link FetchQueueOptions.cache}.
+ */
+export interface CacheOptions {
+  /** Milliseconds a response stays fresh, defaults to 60000. */
+  ttl?: number;
+  /** Milliseconds a stale response is still served while it is refetched, defaults to 0. */
+  staleWhileRevalidate?: number;
+  /** Maximum number of cached responses, least recently used are evicted first. */
+  maxEntries?: number;
+  /** Where responses are kept, defaults to a {@link MemoryCacheStore}. */
+  store?: CacheStore;
+}
+
+/**
+ * In memory {@link CacheStore}, the default one.
+ *
+ * @example
+ * ```ts
+ * const queue = new FetchQueue(fetch, { cache: { store: new MemoryCacheStore() } });
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries: Map<string, CacheEntry> = new Map();
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // reinsert to keep the map ordered from least to most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * {@link CacheStore} over a Web Storage such as `localStorage`, values are
+ * kept as JSON so responses must be parsed into serializable data, see {@link ResponseParser}.
+ *
+ * @example
+ * ```ts
+ * const queue = new FetchQueue(fetch, {
+ *   parse: 'json',
+ *   cache: { ttl: 3600000, store: new WebStorageCacheStore(localStorage) }
+ * });
+ * ```
+ */
+export class WebStorageCacheStore implements CacheStore {
+  private storage: Storage;
+  private prefix: string;
+
+  /**
+   * @param {Storage} storage - The storage to use, e.g. `localStorage`.
+   * @param {string} [prefix] - Prefix of the storage keys owned by this store.
+   */
+  constructor(storage: Storage, prefix: string = 'fetch-queue:') {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const stored = this.read(this.prefix + key);
+    if (!stored) return undefined;
+    const { used, ...entry } = stored;
+    this.write(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.write(key, entry);
+  }
+
+  delete(key: string): void {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  keys(): string[] {
+    const used: Record<string, number> = {};
+    for (let i = 0; i < this.storage.length; i++) {
+      const name = this.storage.key(i);
+      if (!name?.startsWith(this.prefix)) continue;
+      // unreadable entries go first, so they are evicted
+      used[name.slice(this.prefix.length)] = this.read(name)?.used ?? 0;
+    }
+    return Object.keys(used).sort((a, b) => used[a] - used[b]);
+  }
+
+  clear(): void {
+    this.keys().forEach(key => this.delete(key));
+  }
+
+  /**
+   * Reads an entry with its last use.
+   * @param {string} name - The storage key of the entry.
+   * @returns {(CacheEntry & { used: number }) | undefined} - The entry, undefined when missing or unreadable.
+   */
+  private read(name: string): (CacheEntry & { used: number }) | undefined {
+    const raw = this.storage.getItem(name);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores an entry stamped with its last use.
+   * @param {string} key - The entry key.
+   * @param {CacheEntry} entry - The entry to store.
+   */
+  private write(key: string, entry: CacheEntry): void {
+    this.storage.setItem(this.prefix + key, JSON.stringify({ ...entry, used: Date.now() }));
+  }
+}
+
+/**
+ * Options for the {@link FetchQueue} constructor.
+ */
+export interface FetchQueueOptions {
+  /**
+   * Maximum number of distinct requests running at the same time, defaults to 1,
+   * or to no global limit when only `concurrencyPerHost` is given.
+   */
+  concurrency?: number;
+  /** Maximum number of distinct requests running at the same time for the same host. */
+  concurrencyPerHost?: number;
+  /** Retries failed requests with exponential backoff, disabled by default. */
+  retry?: RetryPolicy;
+  /** Caches responses by request, disabled by default. */
+  cache?: CacheOptions;
+  /** Reads the body of every response, callers get a `response.clone()` otherwise. */
+  parse?: ResponseParser;
+  /** Milliseconds any request may run, including retries, disabled by default. */
+  timeout?: number;
+  /**
+   * Refreshes the credentials once when responses are rejected as unauthorized,
+   * the queue is paused meanwhile and the rejected requests are sent again.
+   */
+  refresh?: RefreshOptions;
+  /**
+   * Methods whose identical calls share one request, defaults to the idempotent ones.
+   * Calls whose body cannot be compared, such as `FormData` or `Blob`, are never shared.
+   */
+  dedupMethods?: string[];
+  /**
+   * Builds the key that identical calls share, replacing the built-in one.
+   * Returning `undefined` sends the call on its own whatever its method.
+   */
+  keyFn?: (url: string, options?: RequestInit) => string | undefined;
+  /** Where the queue events are dispatched, e.g. a scope of the package event handler. */
+  events?: EventHandler<any> | EventScope<any>;
+  /**
+   * Collects matching calls over a short window and sends them through one
+   * `batchFn` call, which takes a single concurrency slot. Batch results skip
+   * `parse`, retries, timeouts and the credentials refresh.
+   */
+  batch?: BatchOptions;
+}
+
+const abortReason = (signal?: AbortSignal): any =>
+  signal?.reason ?? new DOMException('The request was aborted.', 'AbortError');
+
+/**
+ * Waits for a delay, rejecting as soon as the signal aborts.
+ * @param {number} ms - The delay in milliseconds.
+ * @param {AbortSignal} [signal] - Ends the wait early when aborted.
+ * @returns {Promise<void>} - Resolved after the delay.
+ */
+const sleep = (ms: number, signal?: AbortSignal | null): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(abortReason(signal));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortReason(signal!));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
 /**
  * A queue to manage fetch requests with unique identification.
  *
- * Useful to deduplicate concurrent network calls to the same URL.
+ * Useful to deduplicate concurrent network calls to the same URL. Calls are
+ * shared when their options are equivalent and their method is idempotent.
  *
  * @example
  * ```ts
@@ -22,76 +513,763 @@ interface RequestOptions {
  *   queue.addRequest('https://example.com/data'),
  *   queue.addRequest('https://example.com/data')
  * ]);
- * // only one HTTP request is performed
+ * // only one HTTP request is performed, a and b are clones of its response
+ *
+ * // distinct requests run in parallel, up to 6 at once and 2 per host
+ * const parallel = new FetchQueue(fetch, { concurrency: 6, concurrencyPerHost: 2 });
+ *
+ * // reuse responses for 5 minutes, then serve them stale for 1 more while refetching
+ * const cached = new FetchQueue(fetch, { cache: { ttl: 300000, staleWhileRevalidate: 60000 } });
+ *
+ * // read the body once, every caller gets the parsed value
+ * const users = await new FetchQueue(fetch, { parse: 'json' }).addRequest<User[]>('/api/users');
+ *
+ * // critical requests jump ahead of prefetches, hung requests give up after 10s
+ * const lanes = new FetchQueue(fetch, { timeout: 10000 });
+ * lanes.addRequest('/api/prefetch', { priority: 'low' });
+ * lanes.addRequest('/api/session', { priority: 'high', timeout: 3000 });
+ *
+ * // each caller can give up on its own, the fetch is aborted when all of them do
+ * const controller = new AbortController();
+ * queue.addRequest('https://example.com/data', { signal: controller.signal });
+ * controller.abort();
  * ```
  */
 export default class FetchQueue {
+  /**
+   * Dispatches the {@link FetchQueueEvents}, a handler of its own unless one is given.
+   *
+   * @example
+   * ```ts
+   * queue.events.subscribe('request:start', () => spinner.show(), 'spinner');
+   * queue.events.subscribe('queue:idle', () => spinner.hide(), 'spinner');
+   * ```
+   */
+  readonly events: EventHandler<FetchQueueEvents> | EventScope<FetchQueueEvents>;
   private queue: Record<string, RequestOptions> = {};
-  private isRunning: boolean = false;
+  private running: number = 0;
+  // requests dropped by their callers stay here until their fetch settles
+  private runningPerHost: Record<string, number> = {};
   private fetchFn: (url: string, options?: RequestInit) => Promise<any>;
+  private concurrency: number;
+  private concurrencyPerHost?: number;
+  private retry?: Required<RetryPolicy>;
+  private cache?: Required<Omit<CacheOptions, 'maxEntries'>> & Pick<CacheOptions, 'maxEntries'>;
+  private parse?: ResponseParser;
+  private timeout?: number;
+  private parserIds: WeakMap<Function, number> = new WeakMap();
+  private parserCount: number = 0;
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+  private refresh?: Required<RefreshOptions>;
+  private refreshing?: Promise<void>;
+  private generation: number = 0;
+  private dedupMethods: string[];
+  private keyFn?: (url: string, options?: RequestInit) => string | undefined;
+  private unsharedCount: number = 0;
+  private batch?: Required<BatchOptions>;
+  private batchTimer?: ReturnType<typeof setTimeout>;
+  private batchDue: boolean = false;
+  private calls: number = 0;
+  private dedupHits: number = 0;
+  private latencies: number[] = [];
 
   /**
    * 
    * @param {Function} fetchFn - A fetch function (e.g., node-fetch or window.fetch).
+   * @param {FetchQueueOptions} [queueOptions] - Concurrency limits, retry policy and cache for the queue.
    */
-  constructor(fetchFn: (url: string, options?: RequestInit) => Promise<any>) {
+  constructor(
+    fetchFn: (url: string, options?: RequestInit) => Promise<any>,
+    {
+      concurrencyPerHost,
+      concurrency = concurrencyPerHost ? Infinity : 1,
+      retry,
+      cache,
+      parse,
+      timeout,
+      refresh,
+      dedupMethods = ['GET', 'HEAD', 'OPTIONS', 'TRACE', 'PUT', 'DELETE'],
+      keyFn,
+      batch,
+      events = new EventHandler<FetchQueueEvents>()
+    }: FetchQueueOptions = {}
+  ) {
     this.fetchFn = fetchFn;
+    this.events = events;
+    this.dedupMethods = dedupMethods.map(method => method.toUpperCase());
+    this.keyFn = keyFn;
+    if (batch) {
+      this.batch = { window: 10, maxSize: 50, ...batch };
+    }
+    this.parse = parse;
+    this.timeout = timeout;
+    this.concurrency = concurrency;
+    this.concurrencyPerHost = concurrencyPerHost;
+    if (retry) {
+      this.retry = {
+        attempts: 3,
+        baseDelay: 300,
+        maxDelay: 30000,
+        jitter: 0.5,
+        statuses: [408, 429, 500, 502, 503, 504],
+        networkErrors: true,
+        ...retry
+      };
+    }
+    if (cache) {
+      this.cache = { ttl: 60000, staleWhileRevalidate: 0, store: new MemoryCacheStore(), ...cache };
+    }
+    if (refresh) {
+      this.refresh = { statuses: [401], ...refresh };
+    }
+  }
+
+  /**
+   * Counts the pending requests, the dedup hits and the latencies of the queue.
+   * @returns {FetchQueueStats} - The current stats.
+   *
+   * @example
+   * ```ts
+   * const { inFlight, queued, dedupRatio, latency } = queue.stats();
+   * console.log(`${inFlight} running, ${queued} waiting, p90 ${latency.p90}ms`);
+   * ```
+   */
+  public stats(): FetchQueueStats {
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    const percentile = (p: number) => sorted.length ? sorted[Math.ceil(p / 100 * sorted.length) - 1] : 0;
+    return {
+      inFlight: this.running,
+      queued: Object.values(this.queue).filter(request => !request.running).length,
+      calls: this.calls,
+      dedupHits: this.dedupHits,
+      dedupRatio: this.calls ? this.dedupHits / this.calls : 0,
+      latency: { p50: percentile(50), p90: percentile(90), p99: percentile(99) }
+    };
+  }
+
+  /**
+   * Adds a request interceptor, interceptors run in the order they were added.
+   * @param {RequestInterceptor} interceptor - The interceptor.
+   * @returns {Function} - Removes the interceptor.
+   *
+   * @example
+   * ```ts
+   * const queue = new FetchQueue(fetch, { refresh: { refresh: () => auth.refreshToken() } });
+   * queue.interceptRequest(({ url, options }) => ({
+   *   url,
+   *   options: { ...options, headers: { ...options?.headers, Authorization: `Bearer ${auth.token}` } }
+   * }));
+   * ```
+   */
+  public interceptRequest(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(i => i !== interceptor);
+    };
+  }
+
+  /**
+   * Adds a response interceptor, interceptors run in the order they were added.
+   * @param {ResponseInterceptor} interceptor - The interceptor.
+   * @returns {Function} - Removes the interceptor.
+   *
+   * @example
+   * ```ts
+   * queue.interceptResponse(response => {
+   *   if (response.status === 403) throw new Error('Forbidden');
+   * });
+   * ```
+   */
+  public interceptResponse(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(i => i !== interceptor);
+    };
   }
 
   /**
    * Adds a fetch request to the queue.
    * @param {string} url - The URL to fetch.
-   * @param {RequestInit} [options] - Optional fetch options.
-   * @returns {Promise<any>} - A promise that resolves with the fetch response.
+   * @param {FetchRequestInit} [options] - Optional fetch options, `signal` aborts only this caller.
+   * @returns {Promise<T>} - A promise that resolves with the parsed body or a clone of the response.
+   */
+  public addRequest<T = any>(url: string, options?: FetchRequestInit): Promise<T> {
+    let request: PreparedRequest;
+    try {
+      request = this.prepare(url, options);
+    } catch (error) {
+      // invalid headers, interceptors and keyFn fail like the fetch itself
+      return Promise.reject(error);
+    }
+    if (this.cache && request.shared) return this.fromCache(request);
+    return this.enqueue(request);
+  }
+
+  /**
+   * Rejects every caller of a pending request and aborts its fetch.
+   * @param {string} url - The URL of the request.
+   * @param {RequestInit} [options] - The fetch options of the request.
+   *
+   * @example
+   * ```ts
+   * queue.cancel('https://example.com/data');
+   * ```
    */
-  public addRequest(url: string, options?: RequestInit): Promise<any> {
-    const hash = this.createHash(url, options);
+  public cancel(url: string, options?: FetchRequestInit): void {
+    const { hash } = this.prepare(url, options);
+    Object.entries(this.queue)
+      .filter(([key]) => key === hash || key.startsWith(`${hash}#`))
+      .forEach(([key, request]) => this.abortRequest(key, request));
+  }
 
-    if (this.queue[hash]) {
-      return new Promise((resolve, reject) => {
-        this.queue[hash].resolve.push(resolve);
-        this.queue[hash].reject.push(reject);
-      });
+  /**
+   * Rejects the callers of every pending request and aborts their fetches.
+   *
+   * @example
+   * ```ts
+   * queue.cancelAll();
+   * ```
+   */
+  public cancelAll(): void {
+    Object.entries(this.queue).forEach(([hash, request]) => this.abortRequest(hash, request));
+  }
+
+  /**
+   * Removes the cached response of a request.
+   * @param {string} url - The URL of the request.
+   * @param {RequestInit} [options] - The fetch options of the request.
+   * @returns {Promise<void>} - Resolves once the response is removed.
+   *
+   * @example
+   * ```ts
+   * await queue.invalidate('https://example.com/data');
+   * ```
+   */
+  public async invalidate(url: string, options?: FetchRequestInit): Promise<void> {
+    await this.cache?.store.delete(this.prepare(url, options).hash);
+  }
+
+  /**
+   * Removes every cached response.
+   * @returns {Promise<void>} - Resolves once the cache is empty.
+   *
+   * @example
+   * ```ts
+   * await queue.clearCache();
+   * ```
+   */
+  public async clearCache(): Promise<void> {
+    await this.cache?.store.clear();
+  }
+
+  /**
+   * Resolves a request from the cache, fetching it when missing or expired.
+   * @param {PreparedRequest} request - The request to resolve.
+   * @returns {Promise<any>} - The cached or fetched response.
+   */
+  private async fromCache(request: PreparedRequest): Promise<any> {
+    const { store, staleWhileRevalidate } = this.cache!;
+    let entry: CacheEntry | undefined;
+    try {
+      entry = await store.get(request.hash);
+    } catch {
+      // a cache that cannot be read is a miss, like one that cannot be written
+    }
+    const now = Date.now();
+    if (entry && now < entry.expires) return this.deliver(entry.value, request.parse);
+    if (entry && now < entry.expires + staleWhileRevalidate) {
+      // a failed revalidation keeps the stale entry
+      this.enqueue({ ...request, signal: undefined }).catch(() => undefined);
+      return this.deliver(entry.value, request.parse);
     }
+    return this.enqueue(request);
+  }
+
+  /**
+   * Queues a request, joining the pending one with the same hash if it is shared.
+   * @param {PreparedRequest} prepared - The request to queue.
+   * @returns {Promise<any>} - A promise that resolves with the fetch response.
+   */
+  private enqueue(prepared: PreparedRequest): Promise<any> {
+    const { source, shared, url, options, parse, priority, timeout, signal } = prepared;
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+    // calls that are not shared get their own entry, still found by `cancel`
+    const hash = shared ? prepared.hash : `${prepared.hash}#${++this.unsharedCount}`;
 
     return new Promise((resolve, reject) => {
-      this.queue[hash] = { url, options, resolve: [resolve], reject: [reject] };
+      const pending = this.queue[hash];
+      const request = pending || {
+        source, shared, url, options, parse, priority, timeout, host: this.getHost(url), running: false,
+        controller: new AbortController(), waiters: [], generation: this.generation, replayed: false,
+        batched: !!this.batch?.match(url, options)
+      };
+      this.calls++;
+      if (pending) {
+        this.dedupHits++;
+        this.emit('request:dedup', hash, pending);
+      }
+      if (pending && !pending.running) {
+        // a shared request takes the most urgent lane and the shortest timeout of its callers
+        if (LANES[priority] < LANES[pending.priority]) pending.priority = priority;
+        if (timeout && !(pending.timeout! <= timeout)) pending.timeout = timeout;
+      }
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => this.removeWaiter(hash, request, waiter, abortReason(signal));
+        signal.addEventListener('abort', waiter.onAbort);
+      }
+      request.waiters.push(waiter);
+      if (pending) return;
+      this.queue[hash] = request;
+      if (request.batched) this.scheduleBatch();
       this.runQueue();
     });
   }
 
   /**
-   * Runs the queue of fetch requests.
+   * Marks the batch as due once its window closes or it is full.
+   */
+  private scheduleBatch(): void {
+    const { window, maxSize } = this.batch!;
+    if (this.countBatched() >= maxSize) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = undefined;
+      this.batchDue = true;
+      return;
+    }
+    if (this.batchTimer) return;
+    // a due batch whose requests were all aborted must not send this one early
+    if (this.batchDue && this.countBatched() > 1) return;
+    this.batchDue = false;
+    this.batchTimer = setTimeout(() => {
+      this.batchTimer = undefined;
+      this.batchDue = this.countBatched() > 0;
+      this.runQueue();
+    }, window);
+  }
+
+  /**
+   * Counts the requests waiting for a batch.
+   * @returns {number} - The number of waiting requests.
+   */
+  private countBatched(): number {
+    return Object.values(this.queue).filter(request => request.batched && !request.running).length;
+  }
+
+  /**
+   * Rejects a caller, aborting the request when no caller is left.
+   * @param {string} hash - The hash of the request.
+   * @param {RequestOptions} request - The request the caller waits for.
+   * @param {Waiter} waiter - The caller to reject.
+   * @param {any} reason - The rejection reason.
+   */
+  private removeWaiter(hash: string, request: RequestOptions, waiter: Waiter, reason: any): void {
+    if (!request.waiters.includes(waiter)) return;
+    request.waiters = request.waiters.filter(w => w !== waiter);
+    waiter.signal?.removeEventListener('abort', waiter.onAbort!);
+    waiter.reject(reason);
+    if (request.waiters.length) return;
+    // a new call for the same request must not join the aborted one
+    if (this.queue[hash] === request) delete this.queue[hash];
+    if (request.running) request.controller.abort(reason);
+    else this.checkIdle();
+  }
+
+  /**
+   * Rejects every caller of a request.
+   * @param {string} hash - The hash of the request.
+   * @param {RequestOptions} request - The request to abort.
+   */
+  private abortRequest(hash: string, request: RequestOptions): void {
+    const reason = abortReason();
+    [...request.waiters].forEach(waiter => this.removeWaiter(hash, request, waiter, reason));
+  }
+
+  /**
+   * Starts the queued requests allowed by the concurrency limits.
+   */
+  private runQueue(): void {
+    if (this.refreshing) return;
+    const waiting = Object.entries(this.queue)
+      .filter(([, request]) => !request.running)
+      .sort(([, a], [, b]) => LANES[a.priority] - LANES[b.priority]);
+    for (const [hash, request] of waiting) {
+      if (this.running >= this.concurrency) return;
+      if (request.running) continue;
+      if (request.batched) {
+        if (this.batchDue) this.runBatch();
+        continue;
+      }
+      if (this.concurrencyPerHost && this.countRunning(request.host) >= this.concurrencyPerHost) continue;
+      this.runRequest(hash, request);
+    }
+  }
+
+  /**
+   * Runs a queued request and settles all its waiters.
+   * @param {string} hash - The hash of the request.
+   * @param {RequestOptions} request - The queued request.
+   */
+  private async runRequest(hash: string, request: RequestOptions): Promise<void> {
+    request.running = true;
+    request.generation = this.generation;
+    this.running++;
+    this.runningPerHost[request.host] = this.countRunning(request.host) + 1;
+    const start = Date.now();
+    this.emit('request:start', hash, request);
+
+    try {
+      const value = await this.withTimeout(request, this.fetchValue(hash, request));
+      this.settle(request, waiter => waiter.resolve(this.deliver(value, request.parse)));
+      this.emit('request:success', hash, request, { duration: this.measure(start) });
+    } catch (error) {
+      this.settle(request, waiter => waiter.reject(error));
+      this.emit('request:error', hash, request, { duration: this.measure(start), error });
+    }
+
+    if (this.queue[hash] === request) delete this.queue[hash];
+    this.running--;
+    if (!--this.runningPerHost[request.host]) delete this.runningPerHost[request.host];
+    this.runQueue();
+    this.checkIdle();
+  }
+
+  /**
+   * Sends the waiting batched requests through `batchFn` and settles each one with its result.
    */
-  private async runQueue(): Promise<void> {
-    if (this.isRunning) return;
-    this.isRunning = true;
+  private async runBatch(): Promise<void> {
+    const { batchFn, maxSize } = this.batch!;
+    const waiting = Object.entries(this.queue).filter(([, request]) => request.batched && !request.running);
+    const entries = waiting.slice(0, maxSize);
+    // what does not fit is sent as soon as a slot is free
+    this.batchDue = waiting.length > maxSize;
+    this.running++;
+    const start = Date.now();
+    entries.forEach(([hash, request]) => {
+      request.running = true;
+      this.emit('request:start', hash, request);
+    });
 
-    while (Object.keys(this.queue).length > 0) {
-      const hash = Object.keys(this.queue)[0];
-      const { url, options, resolve, reject } = this.queue[hash];
+    let results: any[] | undefined;
+    let failure: any;
+    try {
+      results = await batchFn(entries.map(([, { url, options }]) => ({ url, options })));
+      if (!Array.isArray(results) || results.length !== entries.length) {
+        throw new Error(`batchFn resolved ${results?.length} results for ${entries.length} requests`);
+      }
+    } catch (error) {
+      failure = error;
+    }
+
+    for (const [i, [hash, request]] of entries.entries()) {
+      const error = failure ?? (results![i] instanceof Error ? results![i] : undefined);
+      if (error) {
+        this.settle(request, waiter => waiter.reject(error));
+        this.emit('request:error', hash, request, { duration: this.measure(start), error });
+      } else {
+        if (this.cache && request.shared) await this.cacheResponse(hash, results![i]);
+        this.settle(request, waiter => waiter.resolve(results![i]));
+        this.emit('request:success', hash, request, { duration: this.measure(start) });
+      }
+      if (this.queue[hash] === request) delete this.queue[hash];
+    }
 
+    this.running--;
+    this.runQueue();
+    this.checkIdle();
+  }
+
+  /**
+   * Records the latency of a settled request.
+   * @param {number} start - When the request started.
+   * @returns {number} - The latency in milliseconds.
+   */
+  private measure(start: number): number {
+    const duration = Date.now() - start;
+    this.latencies.push(duration);
+    if (this.latencies.length > LATENCY_SAMPLES) this.latencies.shift();
+    return duration;
+  }
+
+  /**
+   * Dispatches a request event without waiting for its listeners.
+   * @param {string} event - The event name.
+   * @param {string} key - The key of the request.
+   * @param {RequestOptions} request - The request.
+   * @param {Partial<FetchQueueEvent>} [extra] - The duration and error, if any.
+   */
+  private emit(
+    event: 'request:start' | 'request:dedup' | 'request:success' | 'request:error',
+    key: string,
+    request: RequestOptions,
+    extra: Partial<FetchQueueEvent> = {}
+  ): void {
+    const method = (request.options?.method || 'GET').toUpperCase();
+    this.events.dispatchSettled(event, { url: request.url, method, key, ...extra }).catch(() => undefined);
+  }
+
+  /**
+   * Dispatches `queue:idle` when no request is left.
+   */
+  private checkIdle(): void {
+    if (this.running || Object.keys(this.queue).length) return;
+    this.events.dispatchSettled('queue:idle').catch(() => undefined);
+  }
+
+  /**
+   * Fetches, reads and caches a request.
+   * @param {string} hash - The hash of the request.
+   * @param {RequestOptions} request - The running request.
+   * @returns {Promise<any>} - The parsed body or the response.
+   */
+  private async fetchValue(hash: string, request: RequestOptions): Promise<any> {
+    const { url, options, parse, controller } = request;
+    let response = await this.fetchWithRetry(url, { ...options, signal: controller.signal });
+    for (const interceptor of this.responseInterceptors) {
+      response = (await interceptor(response, { url, options })) ?? response;
+    }
+    if (this.refresh && !request.replayed && this.refresh.statuses.includes(response?.status)) {
+      await this.refreshCredentials(request.generation);
+      request.replayed = true;
+      this.reintercept(request);
+      return this.fetchValue(hash, request);
+    }
+    const value = await this.read(response, parse);
+    if (this.cache && request.shared && response?.ok !== false) await this.cacheResponse(hash, value);
+    return value;
+  }
+
+  /**
+   * Runs the credentials refresh once for every request rejected meanwhile,
+   * the waiting requests start again after it with their interceptors run again.
+   * @param {number} generation - Refreshes done when the rejected request started.
+   * @returns {Promise<void>} - Resolves once the credentials are refreshed.
+   */
+  private refreshCredentials(generation: number): Promise<void> {
+    // the credentials were refreshed after the request was sent
+    if (generation < this.generation) return Promise.resolve();
+    if (!this.refreshing) {
+      this.refreshing = Promise.resolve()
+        .then(() => this.refresh!.refresh())
+        .then(() => {
+          this.generation++;
+          Object.values(this.queue).filter(r => !r.running).forEach(r => this.reintercept(r));
+        })
+        .finally(() => {
+          this.refreshing = undefined;
+          this.runQueue();
+        });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Runs the request interceptors again over the original call of a request, keeping its hash.
+   * @param {RequestOptions} request - The request to update.
+   */
+  private reintercept(request: RequestOptions): void {
+    const { url, options } = this.prepare(request.source.url, request.source.options);
+    request.url = url;
+    request.options = options;
+    request.host = this.getHost(url);
+  }
+
+  /**
+   * Rejects with a {@link FetchTimeoutError} and aborts the request when it runs too long.
+   * @param {RequestOptions} request - The running request.
+   * @param {Promise<T>} promise - The work of the request.
+   * @returns {Promise<T>} - The work, or its timeout.
+   */
+  private withTimeout<T>(request: RequestOptions, promise: Promise<T>): Promise<T> {
+    const { url, timeout, controller } = request;
+    if (!timeout) return promise;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new FetchTimeoutError(url, timeout);
+        controller.abort(error);
+        reject(error);
+      }, timeout);
+    });
+    return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Settles the callers still waiting for a request.
+   * @param {RequestOptions} request - The finished request.
+   * @param {Function} fn - Resolves or rejects a caller.
+   */
+  private settle(request: RequestOptions, fn: (waiter: Waiter) => void): void {
+    request.waiters.forEach(waiter => {
+      waiter.signal?.removeEventListener('abort', waiter.onAbort!);
+      fn(waiter);
+    });
+    request.waiters = [];
+  }
+
+  /**
+   * Reads the body of a response with a parser.
+   * @param {any} response - The response of `fetchFn`.
+   * @param {ResponseParser} [parse] - The parser, the response is kept as is without it.
+   * @returns {Promise<any>} - The parsed body or the response.
+   */
+  private async read(response: any, parse?: ResponseParser): Promise<any> {
+    if (!parse) return response;
+    return typeof parse === 'function' ? parse(response) : response[parse]();
+  }
+
+  /**
+   * Gives every caller its own copy of an unparsed response so each can read the body.
+   * @param {any} value - The parsed body or the response.
+   * @param {ResponseParser} [parse] - The parser used to read the body.
+   * @returns {any} - The value for one caller.
+   */
+  private deliver(value: any, parse?: ResponseParser): any {
+    return !parse && typeof value?.clone === 'function' ? value.clone() : value;
+  }
+
+  /**
+   * Caches a successful response and evicts the least recently used ones over the limit.
+   * Storage failures, e.g. a full quota, leave the response uncached.
+   * @param {string} hash - The hash of the request.
+   * @param {any} value - The parsed body or the response to cache.
+   */
+  private async cacheResponse(hash: string, value: any): Promise<void> {
+    const { store, ttl, maxEntries } = this.cache!;
+    try {
+      await store.set(hash, { value, expires: Date.now() + ttl });
+      if (!maxEntries) return;
+      const keys = await store.keys();
+      for (const key of keys.slice(0, Math.max(keys.length - maxEntries, 0))) {
+        await store.delete(key);
+      }
+    } catch {
+      // keep serving the response even when it cannot be cached
+    }
+  }
+
+  /**
+   * Calls `fetchFn` retrying failed attempts as the retry policy allows.
+   * @param {string} url - The URL to fetch.
+   * @param {RequestInit} options - Fetch options including the request signal.
+   * @returns {Promise<any>} - The response of the last attempt.
+   */
+  private async fetchWithRetry(url: string, options: RequestInit): Promise<any> {
+    const retry = this.retry;
+    for (let attempt = 1; ; attempt++) {
+      if (options.signal?.aborted) throw abortReason(options.signal);
+      const canRetry = !!retry && attempt < retry.attempts;
+      let response: any;
       try {
-        const response = await this.fetchFn(url, options);
-        resolve.forEach(r => r(response));
-        delete this.queue[hash];
+        response = await this.fetchFn(url, options);
       } catch (error) {
-        reject.forEach(r => r(error));
-        delete this.queue[hash];
+        if (!canRetry || !retry.networkErrors) throw error;
+        await sleep(this.retryDelay(attempt), options.signal);
+        continue;
       }
+      if (!canRetry || !response || !retry.statuses.includes(response.status)) return response;
+      await sleep(this.retryDelay(attempt, response), options.signal);
+    }
+  }
+
+  /**
+   * Computes the wait before the next attempt, honoring `Retry-After` headers.
+   * @param {number} attempt - The attempt that just failed, starting at 1.
+   * @param {any} [response] - The response of the failed attempt, if any.
+   * @returns {number} - Milliseconds to wait.
+   */
+  private retryDelay(attempt: number, response?: any): number {
+    const { baseDelay, maxDelay, jitter } = this.retry as Required<RetryPolicy>;
+    const retryAfter = response?.headers?.get?.('retry-after');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const ms = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+      if (!isNaN(ms)) return Math.min(Math.max(ms, 0), maxDelay);
+    }
+    const delay = Math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+    return delay * (1 - jitter + Math.random() * jitter);
+  }
+
+  /**
+   * Counts the running fetches of a host, batches aside.
+   * @param {string} host - The host to count.
+   * @returns {number} - The number of running fetches.
+   */
+  private countRunning(host: string): number {
+    return this.runningPerHost[host] || 0;
+  }
+
+  /**
+   * Gets the host of a URL, relative URLs resolve against the current location if any.
+   * @param {string} url - The URL to fetch.
+   * @returns {string} - The host, empty when it cannot be resolved.
+   */
+  private getHost(url: string): string {
+    try {
+      const base = typeof location !== 'undefined' ? location.href : undefined;
+      return new URL(url, base).host;
+    } catch {
+      return '';
     }
+  }
 
-    this.isRunning = false;
+  /**
+   * Runs the request interceptors, splits the caller options from the fetch options and hashes the request.
+   * @param {string} url - The URL to fetch.
+   * @param {FetchRequestInit} [options] - The options given to `addRequest`.
+   * @returns {PreparedRequest} - The request parts.
+   */
+  private prepare(url: string, options?: FetchRequestInit): PreparedRequest {
+    const source = { url, options };
+    let intercepted: InterceptedRequest = { url, options: options && { ...options } };
+    for (const interceptor of this.requestInterceptors) {
+      intercepted = interceptor(intercepted) || intercepted;
+    }
+    const { signal, parse = this.parse, priority = 'normal', timeout = this.timeout, ...init } = intercepted.options || {};
+    const fetchOptions = intercepted.options && init;
+    const key = this.keyFn
+      ? this.keyFn(intercepted.url, fetchOptions)
+      : this.dedupMethods.includes((fetchOptions?.method || 'GET').toUpperCase()) && isSerializableBody(fetchOptions?.body)
+        ? this.createKey(intercepted.url, fetchOptions)
+        : undefined;
+    return {
+      source,
+      hash: md5((key ?? this.createKey(intercepted.url, fetchOptions)) + this.parserKey(parse)),
+      shared: key !== undefined,
+      url: intercepted.url,
+      options: fetchOptions,
+      parse,
+      priority,
+      timeout,
+      signal: signal ?? undefined
+    };
   }
 
   /**
-   * Creates a hash to uniquely identify a request.
+   * Creates a key to uniquely identify a request, equivalent options give the same key.
    * @param {string} url - The URL to fetch.
    * @param {RequestInit} [options] - Optional fetch options.
-   * @returns {string} - A hash representing the unique request.
+   * @returns {string} - A key representing the unique request.
+   */
+  private createKey(url: string, options?: RequestInit): string {
+    const { method, headers, ...init } = options || {};
+    const optionsString = JSON.stringify(normalize({
+      ...init,
+      method: (method || 'GET').toUpperCase(),
+      headers: headers && normalizeHeaders(headers)
+    }));
+    return url + optionsString;
+  }
+
+  /**
+   * Names a parser for hashing, functions are told apart by identity.
+   * @param {ResponseParser} [parse] - The parser.
+   * @returns {string} - The parser key, empty without parser.
    */
-  private createHash(url: string, options?: RequestInit): string {
-    const optionsString = JSON.stringify(options || {});
-    return md5(url + optionsString);
+  private parserKey(parse?: ResponseParser): string {
+    if (typeof parse !== 'function') return parse || '';
+    if (!this.parserIds.has(parse)) this.parserIds.set(parse, ++this.parserCount);
+    return `fn:${this.parserIds.get(parse)}`;
   }
 }
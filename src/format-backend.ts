@@ -0,0 +1,102 @@
+import { momentBackend } from "./moment-backend";
+
+/**
+ * The date and compact number engine behind {@link formatValue} and
+ * {@link parseValue}. Patterns are moment-style for dates (`MM/DD/YYYY`) and
+ * numeral-style for compact numbers (`0.00a`), so the `addFormatDate` and
+ * `addFormatNumberCompact` configs work with every backend.
+ */
+export interface FormatBackend {
+  /**
+   * Reads a date, a timestamp or a date string.
+   *
+   * @param value - The value to read
+   * @returns The date, with a NaN time when the value is not a valid date
+   */
+  toDate(value: any): Date;
+  /**
+   * Formats a date with a moment-style pattern.
+   *
+   * @param date - A valid date
+   * @param pattern - The pattern, such as `MM/DD/YYYY HH:mm`
+   * @param lang - The current lang
+   * @returns The formatted date
+   */
+  formatDate(date: Date, pattern: string, lang: string): string;
+  /**
+   * Reads a text written by {@link FormatBackend.formatDate} with the same pattern.
+   *
+   * @param text - The text to read
+   * @param pattern - The moment-style pattern
+   * @param lang - The current lang
+   * @returns The date, with a NaN time when the text does not match the pattern
+   */
+  parseDate(text: string, pattern: string, lang: string): Date;
+  /**
+   * Formats the distance between a date and now.
+   *
+   * @param date - A valid date
+   * @param withoutSuffix - Drops the "ago" and "in" words
+   * @param lang - The current lang
+   * @returns The relative time, such as "3 days ago"
+   */
+  formatRelative(date: Date, withoutSuffix: boolean, lang: string): string;
+  /**
+   * Formats a number in compact form with a numeral-style pattern.
+   *
+   * @param value - The number
+   * @param pattern - The pattern, such as `0.00a`
+   * @param lang - The current lang
+   * @returns The compact number, such as "1.50K"
+   */
+  formatCompact(value: number, pattern: string, lang: string): string;
+  /**
+   * Reads a text written by {@link FormatBackend.formatCompact}.
+   *
+   * @param text - The text to read
+   * @param pattern - The numeral-style pattern
+   * @param lang - The current lang
+   * @returns The number, NaN when the text is not a compact number
+   */
+  parseCompact(text: string, pattern: string, lang: string): number;
+  /**
+   * Called by `setLang`, for backends that keep a global locale.
+   *
+   * @param lang - The new lang
+   */
+  setLang?(lang: string): void;
+}
+
+let backend: FormatBackend = momentBackend;
+
+/**
+ * Replaces the backend of {@link formatValue} and {@link parseValue}, meant to
+ * be called once at startup. The default is the `momentBackend`.
+ *
+ * @param newBackend - The backend to use from now on
+ *
+ * @example
+ * ```ts
+ * import { intlBackend } from 'dbl-utils/intl-backend';
+ *
+ * setFormatBackend(intlBackend);
+ * formatValue(1500, { format: 'number-compact' }); // "1.50K"
+ * ```
+ */
+export function setFormatBackend(newBackend: FormatBackend): void {
+  backend = newBackend;
+}
+
+/**
+ * Gets the backend used by {@link formatValue} and {@link parseValue}.
+ *
+ * @returns The current backend
+ *
+ * @example
+ * ```ts
+ * getFormatBackend() === momentBackend; // true until setFormatBackend is called
+ * ```
+ */
+export function getFormatBackend(): FormatBackend {
+  return backend;
+}
@@ -1,82 +1,368 @@
-import moment from "moment";
-import numeral from "numeral";
-
+import { getFormatBackend } from "./format-backend";
 import t, {
   formatDate, formatNumber, formatNumberCompact,
-  formatCurrency, formatTime, formatDateTime, getLang
+  formatCurrency, formatTime, formatDateTime, getLang,
+  formatPercent, formatBytes, formatDuration, formatRelative, formatOrdinal
 } from "./i18n";
 
+/**
+ * Registry of the format names, augment it to type the formats added with
+ * {@link registerFormat}.
+ *
+ * @example
+ * ```ts
+ * declare module 'dbl-utils/format-value' {
+ *   interface FormatTypes {
+ *     shout: true;
+ *   }
+ * }
+ * ```
+ */
+export interface FormatTypes {
+  'number-compact': true;
+  'numbercompact': true;
+  'number': true;
+  'currency': true;
+  'dictionary': true;
+  'date': true;
+  'time': true;
+  'date-time': true;
+  'datetime': true;
+  'percent': true;
+  'bytes': true;
+  'duration': true;
+  'relative': true;
+  'ordinal': true;
+}
+
 // Define types for format configurations
-type FormatType =
-  | 'number-compact'
-  | 'numbercompact'
-  | 'number'
-  | 'currency'
-  | 'dictionary'
-  | 'date'
-  | 'time'
-  | 'date-time'
-  | 'datetime';
-
-interface FormatConfig {
+export type FormatType = keyof FormatTypes;
+
+/**
+ * `formatConf` of the `bytes` format.
+ */
+export interface BytesFormatOptions extends Intl.NumberFormatOptions {
+  /** Multiples of 1024 when true, of 1000 otherwise, defaults to true. */
+  binary?: boolean;
+}
+
+/**
+ * `formatConf` of the `duration` format, the value is in milliseconds.
+ */
+export interface DurationFormatOptions {
+  /** Maximum number of units shown, from the largest one, defaults to 2. */
+  largest?: number;
+  /** Label of each unit, units without label are not shown. */
+  labels?: Partial<Record<'day' | 'hour' | 'minute' | 'second' | 'millisecond', string>>;
+}
+
+/**
+ * `formatConf` of the `relative` format.
+ */
+export interface RelativeFormatOptions {
+  /** Drops the "ago" and "in" parts, defaults to false. */
+  withoutSuffix?: boolean;
+}
+
+/**
+ * `formatConf` of the `ordinal` format: the suffix of each ordinal plural category of the lang.
+ */
+export type OrdinalFormatOptions = Partial<Record<Intl.LDMLPluralRule, string>>;
+
+/**
+ * How empty and invalid values are shown, per call in {@link FormatConfig}
+ * or globally through {@link setFormatDefaults}.
+ */
+export interface FormatPolicy {
+  /** Shown for `null`, `undefined` and blank strings, defaults to `''`. */
+  emptyPlaceholder?: any;
+  /** Shown for values the format cannot read, such as `NaN` or invalid dates, defaults to `''`. */
+  invalidPlaceholder?: any;
+  /** Throws a {@link FormatValueError} instead of showing a placeholder, defaults to false. */
+  strict?: boolean;
+}
+
+export interface FormatConfig extends FormatPolicy {
   format?: FormatType;
-  formatConf?: string | Intl.NumberFormatOptions;
+  formatConf?: string | Intl.NumberFormatOptions | BytesFormatOptions
+    | DurationFormatOptions | RelativeFormatOptions | OrdinalFormatOptions;
   context?: any;
   currency?: string;
 }
 
+/**
+ * Writes a value for an error message, BigInts and circular objects included.
+ *
+ * @param value - The value to describe
+ * @returns A short description
+ */
+function describeValue(value: any): string {
+  if (typeof value === 'bigint') return `${value}n`;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return Object.prototype.toString.call(value);
+  }
+}
+
+/**
+ * Thrown by the formatters for empty or invalid values. {@link formatValue}
+ * shows the matching placeholder instead unless the strict mode is on.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   formatValue('abc', { format: 'number', strict: true });
+ * } catch (error) {
+ *   if (error instanceof FormatValueError) console.warn(error.reason); // "invalid"
+ * }
+ * ```
+ */
+export class FormatValueError extends Error {
+  /** The value that could not be formatted. */
+  value: any;
+  /** The format it was formatted with. */
+  format: string;
+  /** Whether the value is empty or invalid for the format. */
+  reason: 'empty' | 'invalid';
+
+  /**
+   * @param value - The value that could not be formatted
+   * @param format - The format it was formatted with
+   * @param reason - Whether the value is empty or invalid for the format
+   */
+  constructor(value: any, format: string, reason: 'empty' | 'invalid') {
+    super(`Cannot format ${reason} value ${describeValue(value)} as ${format}`);
+    this.name = 'FormatValueError';
+    this.value = value;
+    this.format = format;
+    this.reason = reason;
+  }
+}
+
+const policy: Required<FormatPolicy> = { emptyPlaceholder: '', invalidPlaceholder: '', strict: false };
+
+/**
+ * Sets the global placeholders and strict mode, each {@link FormatConfig} can override them.
+ *
+ * @param defaults - The policy values to change
+ *
+ * @example
+ * ```ts
+ * setFormatDefaults({ emptyPlaceholder: '—', invalidPlaceholder: 'n/a' });
+ * formatValue(null, { format: 'number' }); // "—"
+ * ```
+ */
+export function setFormatDefaults(defaults: FormatPolicy): void {
+  Object.assign(policy, defaults);
+}
+
+/**
+ * Coerces a number, a BigInt, a numeric string or a boolean into a number.
+ *
+ * @param value - The value to coerce
+ * @param conf - The configuration, for the errors
+ * @returns The number
+ * @throws {FormatValueError} When the value is not a number
+ */
+function toNumber(value: any, conf: FormatConfig): number {
+  const number = typeof value === 'number' ? value
+    : ['string', 'boolean', 'bigint'].includes(typeof value) ? Number(value)
+      : NaN;
+  if (isNaN(number)) throw new FormatValueError(value, conf.format as string, 'invalid');
+  return number;
+}
+
+/**
+ * Like {@link toNumber} but keeps BigInts, which Intl formats without losing precision.
+ *
+ * @param value - The value to coerce
+ * @param conf - The configuration, for the errors
+ * @returns The number or the BigInt
+ * @throws {FormatValueError} When the value is not a number
+ */
+const toNumeric = (value: any, conf: FormatConfig): any =>
+  typeof value === 'bigint' ? value : toNumber(value, conf);
+
+/**
+ * Reads a value as a date with the current backend.
+ *
+ * @param value - The value to read
+ * @param conf - The configuration, for the errors
+ * @returns The valid date
+ * @throws {FormatValueError} When the value is not a valid date
+ */
+function toDate(value: any, conf: FormatConfig): Date {
+  const date = getFormatBackend().toDate(value);
+  if (isNaN(date.getTime())) throw new FormatValueError(value, conf.format as string, 'invalid');
+  return date;
+}
+
 /**
+ * Formats a value for one format name.
+ */
+export type Formatter = (value: any, conf: FormatConfig, lang: string) => any;
+
+const formatters: Record<string, Formatter> = {};
+
+/**
+ * Registers the formatter of a format name, replacing the previous one if any.
+ *
+ * @param name - The format name used in {@link FormatConfig.format}
+ * @param formatter - Receives the value, the configuration and the current lang
+ *
+ * @example
+ * ```ts
+ * registerFormat('percent', (value, conf, lang) =>
+ *   value.toLocaleString(lang, { style: 'percent', ...(conf.formatConf as object) }));
+ * formatValue(0.25, { format: 'percent' }); // "25%"
+ * ```
+ */
+export function registerFormat(name: FormatType, formatter: Formatter): void {
+  formatters[name] = formatter;
+}
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+
+/** Labels of the `duration` format when the configuration has none. */
+const DURATION_LABELS: DurationFormatOptions['labels'] = { day: 'd', hour: 'h', minute: 'm', second: 's' };
+
+const DURATION_UNITS: Array<[keyof NonNullable<DurationFormatOptions['labels']>, number]> = [
+  ['day', 86400000], ['hour', 3600000], ['minute', 60000], ['second', 1000], ['millisecond', 1]
+];
+
+/**
+ * Maps the package default lang to the runtime default locale.
+ *
+ * @param lang - The current lang
+ * @returns A locale for the Intl APIs
+ */
+const toLocale = (lang: string): string | undefined => lang === '_default' ? undefined : lang;
+
+const formatNumberCompactValue: Formatter = (value, conf, lang) => {
+  const pattern = conf.formatConf as string || formatNumberCompact(conf.context);
+  return getFormatBackend().formatCompact(toNumber(value, conf), pattern, lang);
+};
+
+const formatDateTimeValue: Formatter = (value, conf, lang) => getFormatBackend()
+  .formatDate(toDate(value, conf), conf.formatConf as string || formatDateTime(conf.context), lang);
+
+registerFormat('number-compact', formatNumberCompactValue);
+registerFormat('numbercompact', formatNumberCompactValue);
+
+registerFormat('number', (value, conf, lang) =>
+  typeof value === 'boolean' ? Number(value)
+    : toNumeric(value, conf).toLocaleString(toLocale(lang), (conf.formatConf || formatNumber(conf.context)) as Intl.NumberFormatOptions));
+
+registerFormat('currency', (value, conf, lang) => {
+  const globalConf = (conf.formatConf || formatCurrency(conf.context)) as Intl.NumberFormatOptions;
+  if (typeof globalConf === 'string')
+    throw new Error("currency format must have formatConf as an Intl.NumberFormatOptions");
+
+  return toNumeric(value, conf).toLocaleString(toLocale(lang), {
+    ...globalConf,
+    style: "currency",
+    currency: conf.currency || (globalConf.currency as string),
+  });
+});
+
+registerFormat('dictionary', (value, conf) => t(value, conf.context));
+
+registerFormat('date', (value, conf, lang) => getFormatBackend()
+  .formatDate(toDate(value, conf), conf.formatConf as string || formatDate(conf.context), lang));
+
+registerFormat('time', (value, conf, lang) => getFormatBackend()
+  .formatDate(toDate(value, conf), conf.formatConf as string || formatTime(conf.context), lang));
+
+registerFormat('date-time', formatDateTimeValue);
+registerFormat('datetime', formatDateTimeValue);
+
+registerFormat('percent', (value, conf, lang) => toNumeric(value, conf).toLocaleString(toLocale(lang), {
+  ...(conf.formatConf || formatPercent(conf.context)) as Intl.NumberFormatOptions,
+  style: 'percent'
+}));
+
+registerFormat('bytes', (value, conf, lang) => {
+  const { binary = true, ...options } = (conf.formatConf || formatBytes(conf.context)) as BytesFormatOptions;
+  const base = binary ? 1024 : 1000;
+  let amount = toNumber(value, conf);
+  let unit = 0;
+  while (Math.abs(amount) >= base && unit < BYTE_UNITS.length - 1) {
+    amount /= base;
+    unit++;
+  }
+  return `${amount.toLocaleString(toLocale(lang), options)} ${BYTE_UNITS[unit]}`;
+});
+
+registerFormat('duration', (value, conf, lang) => {
+  const options = (conf.formatConf || formatDuration(conf.context)) as DurationFormatOptions;
+  // a lang configured only with contexts gives the map of its contexts
+  const { largest = 2, labels = DURATION_LABELS } = options;
+  const units = DURATION_UNITS.filter(([name]) => labels[name]);
+  const number = toNumber(value, conf);
+  const sign = number < 0 ? '-' : '';
+  let rest = Math.abs(number);
+  const amounts = units.map(([name, size]) => {
+    const amount = Math.floor(rest / size);
+    rest -= amount * size;
+    return [name, amount] as const;
+  });
+  const first = amounts.findIndex(([, amount]) => amount);
+  if (first === -1) {
+    if (!units.length) return '';
+    const [name] = units[units.length - 1];
+    return `${(0).toLocaleString(toLocale(lang))}${labels[name]}`;
+  }
+  return sign + amounts.slice(first, first + largest)
+    .filter(([, amount]) => amount)
+    .map(([name, amount]) => `${amount.toLocaleString(toLocale(lang))}${labels[name]}`)
+    .join(' ');
+});
+
+registerFormat('relative', (value, conf, lang) => {
+  const { withoutSuffix = false } = (conf.formatConf || formatRelative(conf.context)) as RelativeFormatOptions;
+  return getFormatBackend().formatRelative(toDate(value, conf), withoutSuffix, lang);
+});
+
+registerFormat('ordinal', (value, conf, lang) => {
+  const suffixes = (conf.formatConf || formatOrdinal(conf.context)) as OrdinalFormatOptions;
+  const number = toNumber(value, conf);
+  const category = new Intl.PluralRules(toLocale(lang), { type: 'ordinal' }).select(number);
+  return `${number.toLocaleString(toLocale(lang))}${suffixes[category] ?? suffixes.other ?? ''}`;
+});
+
+/**
  * Formats a value based on the provided configuration.
  *
+ * Empty and invalid values show the placeholders of the configuration or of
+ * {@link setFormatDefaults}, or throw a {@link FormatValueError} in strict mode.
+ *
  * @param value - The value to format
  * @param conf - Configuration options for formatting
- * @returns The formatted value or the original value if the format is not specified
+ * @returns The formatted value or the original value if the format is not specified or registered
+ * @throws {FormatValueError} In strict mode, when the value is empty or invalid
  *
  * @example
  * ```ts
  * formatValue(1000, { format: 'currency', currency: 'USD' });
  * // => "$1,000.00" in an English locale
+ * formatValue(null, { format: 'number', emptyPlaceholder: '-' }); // "-"
  * ```
  */
 export default function formatValue(value: any, conf: FormatConfig): any {
   if (!conf?.format) return value;
-
-  switch (conf.format) {
-    case 'number-compact':
-    case 'numbercompact': {
-      numeral.locale(getLang());
-      return numeral(value).format(conf.formatConf as string || formatNumberCompact(conf.context));
-    }
-    case 'number': {
-      return typeof value === 'boolean' ? Number(value)
-        : value.toLocaleString(getLang(), conf.formatConf || formatNumber(conf.context));
-    }
-    case 'currency': {
-      const globalConf = (conf.formatConf || formatCurrency(conf.context)) as Intl.NumberFormatOptions;
-      if (typeof globalConf === 'string')
-        throw new Error("currency format must have formatConf as an Intl.NumberFormatOptions");
-
-      return value.toLocaleString(getLang(), {
-        ...globalConf,
-        style: "currency",
-        currency: conf.currency || (globalConf.currency as string),
-      });
-    }
-    case 'dictionary': {
-      return t(value, conf.context);
-    }
-    case 'date': {
-      return moment(value).format(conf.formatConf as string || formatDate(conf.context));
-    }
-    case 'time': {
-      return moment(value).format(conf.formatConf as string || formatTime(conf.context));
-    }
-    case 'date-time':
-    case 'datetime': {
-      return moment(value).format(conf.formatConf as string || formatDateTime(conf.context));
-    }
-    default: {
-      return value;
+  const formatter = formatters[conf.format];
+  if (!formatter) return value;
+  const strict = conf.strict ?? policy.strict;
+  try {
+    if (value === null || value === undefined || (typeof value === 'string' && !value.trim())) {
+      throw new FormatValueError(value, conf.format, 'empty');
     }
+    return formatter(value, conf, getLang());
+  } catch (error) {
+    if (strict || !(error instanceof FormatValueError)) throw error;
+    return error.reason === 'empty'
+      ? conf.emptyPlaceholder ?? policy.emptyPlaceholder
+      : conf.invalidPlaceholder ?? policy.invalidPlaceholder;
   }
 }
@@ -1,5 +1,4 @@
-import moment from "moment";
-
+import { getFormatBackend } from "./format-backend";
 import { deepMerge } from "./object-mutation";
 
 /**
@@ -13,6 +12,11 @@ import { deepMerge } from "./object-mutation";
  * @property {Object} formatNumber - The number formats.
  * @property {Object} formatNumberCompact - The compact number formats.
  * @property {Object} formatCurrency - The currency formats.
+ * @property {Object} formatPercent - The percent formats.
+ * @property {Object} formatBytes - The file size formats.
+ * @property {Object} formatDuration - The duration formats.
+ * @property {Object} formatRelative - The relative time formats.
+ * @property {Object} formatOrdinal - The ordinal suffixes.
  * @property {Object} tasks - The tasks to perform if language changes.
  */
 interface Config {
@@ -24,6 +28,11 @@ interface Config {
   formatNumber: Record<string, any>;
   formatNumberCompact: Record<string, any>;
   formatCurrency: Record<string, any>;
+  formatPercent: Record<string, any>;
+  formatBytes: Record<string, any>;
+  formatDuration: Record<string, any>;
+  formatRelative: Record<string, any>;
+  formatOrdinal: Record<string, any>;
   tasks: Record<string, (lang: string) => void>;
 }
 
@@ -36,6 +45,13 @@ const config: Config = {
   formatNumber: { default: {} },
   formatNumberCompact: { default: '0.00a' },
   formatCurrency: { default: { currency: 'USD', style: 'currency' } },
+  formatPercent: { default: { style: 'percent', maximumFractionDigits: 2 } },
+  formatBytes: { default: { binary: true, maximumFractionDigits: 1 } },
+  formatDuration: {
+    default: { largest: 2, labels: { day: 'd', hour: 'h', minute: 'm', second: 's' } }
+  },
+  formatRelative: { default: { withoutSuffix: false } },
+  formatOrdinal: { default: { one: 'st', two: 'nd', few: 'rd', other: 'th' } },
   tasks: {}
 };
 
@@ -187,6 +203,87 @@ export const addFormatCurrency = (formats: object): boolean => {
   return true;
 }
 
+/**
+ * Adds percent formats to the configuration object.
+ * @param {Object} formats - The percent formats to add.
+ * @returns {boolean} True if added correctly, false otherwise.
+ *
+ * @example
+ * ```ts
+ * addFormatPercent({ es: { short: { maximumFractionDigits: 0 } } });
+ * ```
+ */
+export const addFormatPercent = (formats: object): boolean => {
+  if (typeof formats !== 'object') return false;
+  Object.values(formats).forEach(format => (format.style = 'percent'));
+  deepMerge(config.formatPercent, formats);
+  return true;
+}
+
+/**
+ * Adds file size formats to the configuration object.
+ * @param {Object} formats - The file size formats to add.
+ * @returns {boolean} True if added correctly, false otherwise.
+ *
+ * @example
+ * ```ts
+ * addFormatBytes({ es: { disk: { binary: false } } });
+ * ```
+ */
+export const addFormatBytes = (formats: object): boolean => {
+  if (typeof formats !== 'object') return false;
+  deepMerge(config.formatBytes, formats);
+  return true;
+}
+
+/**
+ * Adds duration formats to the configuration object.
+ * @param {Object} formats - The duration formats to add.
+ * @returns {boolean} True if added correctly, false otherwise.
+ *
+ * @example
+ * ```ts
+ * addFormatDuration({ es: { largest: 3, labels: { day: 'd', hour: 'h', minute: 'min', second: 's' } } });
+ * ```
+ */
+export const addFormatDuration = (formats: object): boolean => {
+  if (typeof formats !== 'object') return false;
+  deepMerge(config.formatDuration, formats);
+  return true;
+}
+
+/**
+ * Adds relative time formats to the configuration object.
+ * @param {Object} formats - The relative time formats to add.
+ * @returns {boolean} True if added correctly, false otherwise.
+ *
+ * @example
+ * ```ts
+ * addFormatRelative({ es: { short: { withoutSuffix: true } } });
+ * ```
+ */
+export const addFormatRelative = (formats: object): boolean => {
+  if (typeof formats !== 'object') return false;
+  deepMerge(config.formatRelative, formats);
+  return true;
+}
+
+/**
+ * Adds ordinal suffixes, by plural category, to the configuration object.
+ * @param {Object} formats - The ordinal suffixes to add.
+ * @returns {boolean} True if added correctly, false otherwise.
+ *
+ * @example
+ * ```ts
+ * addFormatOrdinal({ es: { other: 'º' } });
+ * ```
+ */
+export const addFormatOrdinal = (formats: object): boolean => {
+  if (typeof formats !== 'object') return false;
+  deepMerge(config.formatOrdinal, formats);
+  return true;
+}
+
 /**
  * Adds tasks to be executed on language change.
  * @param {Object} tasks - The tasks to add.
@@ -221,7 +318,7 @@ export const removeTask = (key: string): boolean => {
 }
 
 /**
- * Sets the current language.
+ * Sets the current language, also for the format backends that keep a global locale.
  * @param {string} newLang - The new language to set.
  * @returns {boolean} True if set correctly, false otherwise.
  *
@@ -232,7 +329,7 @@ export const removeTask = (key: string): boolean => {
  */
 export const setLang = (newLang: string): boolean => {
   if (!newLang || config.lang === newLang) return false;
-  moment.locale(newLang);
+  getFormatBackend().setLang?.(newLang);
   config.lang = newLang;
   Object.values(config.tasks).forEach(task => task(newLang));
   return true;
@@ -393,6 +490,76 @@ export const formatCurrency = (context?: string): string => {
   return formatGeneric(config.formatCurrency, context);
 }
 
+/**
+ * Formats a percent according to the current language and context.
+ * @param {string} [context] - The context of the percent.
+ * @returns {string} The percent format.
+ *
+ * @example
+ * ```ts
+ * formatPercent();
+ * ```
+ */
+export const formatPercent = (context?: string): string => {
+  return formatGeneric(config.formatPercent, context);
+}
+
+/**
+ * Formats a file size according to the current language and context.
+ * @param {string} [context] - The context of the file size.
+ * @returns {string} The file size format.
+ *
+ * @example
+ * ```ts
+ * formatBytes();
+ * ```
+ */
+export const formatBytes = (context?: string): string => {
+  return formatGeneric(config.formatBytes, context);
+}
+
+/**
+ * Formats a duration according to the current language and context.
+ * @param {string} [context] - The context of the duration.
+ * @returns {string} The duration format.
+ *
+ * @example
+ * ```ts
+ * formatDuration();
+ * ```
+ */
+export const formatDuration = (context?: string): string => {
+  return formatGeneric(config.formatDuration, context);
+}
+
+/**
+ * Formats a relative time according to the current language and context.
+ * @param {string} [context] - The context of the relative time.
+ * @returns {string} The relative time format.
+ *
+ * @example
+ * ```ts
+ * formatRelative();
+ * ```
+ */
+export const formatRelative = (context?: string): string => {
+  return formatGeneric(config.formatRelative, context);
+}
+
+/**
+ * Gets the ordinal suffixes according to the current language and context.
+ * @param {string} [context] - The context of the ordinal.
+ * @returns {string} The ordinal suffixes.
+ *
+ * @example
+ * ```ts
+ * formatOrdinal();
+ * ```
+ */
+export const formatOrdinal = (context?: string): string => {
+  return formatGeneric(config.formatOrdinal, context);
+}
+
 export default t;
 
 
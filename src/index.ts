@@ -1,10 +1,18 @@
 export { default as eventHandler } from "./event-handler";
+export { default as EventBridge } from "./event-bridge";
 export { default as FetchQueue } from "./fetch-queue";
 export { default as formatValue } from "./format-value";
+export { default as parseValue } from "./parse-value";
 export { default as resolveRefs } from "./resolve-refs";
 export { default as t } from "./i18n";
+export * from "./event-bridge";
 export * from "./event-handler";
+export * from "./fetch-queue";
 export * from "./flat";
+export * from "./format-backend";
+export * from "./format-value";
 export * from "./i18n";
+export * from "./intl-backend";
 export * from "./object-mutation";
+export * from "./parse-value";
 export * from "./utils";
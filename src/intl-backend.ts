@@ -0,0 +1,348 @@
+import type { FormatBackend } from "./format-backend";
+
+/**
+ * Maps the package default lang to the runtime default locale.
+ *
+ * @param lang - The current lang
+ * @returns A locale for the Intl APIs
+ */
+const toLocale = (lang: string): string | undefined => lang === '_default' ? undefined : lang;
+
+const pad = (value: number, length: number = 2): string => String(Math.abs(value)).padStart(length, '0');
+
+const escape = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const ORDINAL_SUFFIXES: Record<string, string> = { one: 'st', two: 'nd', few: 'rd', other: 'th' };
+
+/** Intl options of the moment localized tokens. */
+const LOCALIZED: Record<string, Intl.DateTimeFormatOptions> = {
+  LT: { hour: 'numeric', minute: '2-digit' },
+  LTS: { hour: 'numeric', minute: '2-digit', second: '2-digit' },
+  L: { year: 'numeric', month: '2-digit', day: '2-digit' },
+  LL: { year: 'numeric', month: 'long', day: 'numeric' },
+  LLL: { year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' },
+  LLLL: { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' }
+};
+
+const TOKENS = /\[([^\]]*)]|LTS|LT|LLLL|LLL|LL|L|YYYY|YY|MMMM|MMM|MM|M|Do|DD|D|dddd|ddd|dd|d|HH|H|hh|h|mm|m|ss|s|SSS|A|a|ZZ|Z|X|x/g;
+
+/**
+ * Reads one part of a date written by Intl, such as the month name.
+ *
+ * @param date - The date
+ * @param locale - The Intl locale
+ * @param options - The Intl options that write the part
+ * @param type - The part to read
+ * @returns The part, or an empty string if the locale does not write it
+ */
+function datePart(date: Date, locale: string | undefined, options: Intl.DateTimeFormatOptions,
+  type: Intl.DateTimeFormatPartTypes): string {
+  return new Intl.DateTimeFormat(locale, options).formatToParts(date)
+    .find(part => part.type === type)?.value ?? '';
+}
+
+/**
+ * Formats a date with moment-style tokens using only the Intl APIs, so the
+ * `addFormatDate`, `addFormatTime` and `addFormatDateTime` configs keep working
+ * without moment. Supports the year, month, day, weekday, hour, minute, second,
+ * millisecond, meridiem, offset, timestamp and localized (`L`, `LL`, `LT`...)
+ * tokens and `[escaped]` text. `Do` writes English ordinals.
+ *
+ * @param date - The date to format
+ * @param pattern - The moment-style pattern
+ * @param lang - The current lang
+ * @returns The formatted date
+ *
+ * @example
+ * ```ts
+ * formatDateTokens(new Date(2024, 0, 2, 15, 4), 'MM/DD/YYYY h:mm A', 'en'); // "01/02/2024 3:04 PM"
+ * formatDateTokens(new Date(2024, 0, 2), 'dddd D [de] MMMM', 'es'); // "martes 2 de enero"
+ * ```
+ */
+export function formatDateTokens(date: Date, pattern: string, lang: string): string {
+  const locale = toLocale(lang);
+  return pattern.replace(TOKENS, (token, escaped?: string) => {
+    if (escaped !== undefined) return escaped;
+    if (LOCALIZED[token]) return new Intl.DateTimeFormat(locale, LOCALIZED[token]).format(date);
+    const offset = -date.getTimezoneOffset();
+    switch (token) {
+      case 'YYYY': return pad(date.getFullYear(), 4);
+      case 'YY': return pad(date.getFullYear() % 100);
+      case 'MMMM': return datePart(date, locale, { month: 'long' }, 'month');
+      case 'MMM': return datePart(date, locale, { month: 'short' }, 'month');
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'Do': {
+        const rule = new Intl.PluralRules('en', { type: 'ordinal' }).select(date.getDate());
+        return `${date.getDate()}${ORDINAL_SUFFIXES[rule]}`;
+      }
+      case 'DD': return pad(date.getDate());
+      case 'D': return String(date.getDate());
+      case 'dddd': return datePart(date, locale, { weekday: 'long' }, 'weekday');
+      case 'ddd': return datePart(date, locale, { weekday: 'short' }, 'weekday');
+      case 'dd': return datePart(date, locale, { weekday: 'short' }, 'weekday').slice(0, 2);
+      case 'd': return String(date.getDay());
+      case 'HH': return pad(date.getHours());
+      case 'H': return String(date.getHours());
+      case 'hh': return pad(date.getHours() % 12 || 12);
+      case 'h': return String(date.getHours() % 12 || 12);
+      case 'mm': return pad(date.getMinutes());
+      case 'm': return String(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      case 's': return String(date.getSeconds());
+      case 'SSS': return pad(date.getMilliseconds(), 3);
+      case 'A': return datePart(date, locale, { hour: 'numeric', hour12: true }, 'dayPeriod');
+      case 'a': return datePart(date, locale, { hour: 'numeric', hour12: true }, 'dayPeriod').toLowerCase();
+      case 'ZZ': return `${offset < 0 ? '-' : '+'}${pad(Math.trunc(offset / 60))}${pad(offset % 60)}`;
+      case 'Z': return `${offset < 0 ? '-' : '+'}${pad(Math.trunc(offset / 60))}:${pad(offset % 60)}`;
+      case 'X': return String(Math.floor(date.getTime() / 1000));
+      default: return String(date.getTime());
+    }
+  });
+}
+
+/**
+ * Writes a localized token (`L`, `LL`, `LT`...) as the moment tokens of the
+ * parts Intl writes for it in a locale.
+ *
+ * @param token - The localized token
+ * @param locale - The Intl locale
+ * @returns The equivalent moment-style pattern
+ */
+function localizedPattern(token: string, locale: string | undefined): string {
+  const options = LOCALIZED[token];
+  const format = new Intl.DateTimeFormat(locale, options);
+  const { hour12 } = format.resolvedOptions();
+  return format.formatToParts(new Date(2000, 0, 2, 15, 4, 5)).map(({ type, value }) => {
+    switch (type) {
+      case 'year': return 'YYYY';
+      case 'month': return options.month === 'long' ? 'MMMM' : options.month === '2-digit' ? 'MM' : 'M';
+      case 'day': return options.day === '2-digit' ? 'DD' : 'D';
+      case 'weekday': return 'dddd';
+      case 'hour': return hour12 ? 'h' : 'H';
+      case 'minute': return 'mm';
+      case 'second': return 'ss';
+      case 'dayPeriod': return 'A';
+      default: return `[${value}]`;
+    }
+  }).join('');
+}
+
+/**
+ * Reads a date written by {@link formatDateTokens} with the same pattern and lang.
+ * Missing date parts default to today, or to the first month and day when the
+ * pattern has some of them; a `Z` or `ZZ` offset reads the time in that offset.
+ *
+ * @param text - The text to read
+ * @param pattern - The moment-style pattern
+ * @param lang - The current lang
+ * @returns The date, with a NaN time when the text does not match the pattern
+ *
+ * @example
+ * ```ts
+ * parseDateTokens('01/02/2024 3:04 PM', 'MM/DD/YYYY h:mm A', 'en'); // new Date(2024, 0, 2, 15, 4)
+ * parseDateTokens('2 de enero', 'D [de] MMMM', 'es'); // January 2 of the current year
+ * ```
+ */
+export function parseDateTokens(text: string, pattern: string, lang: string): Date {
+  const locale = toLocale(lang);
+  const fields: Record<string, number> = {};
+  const readers: Array<(match: string) => void> = [];
+  const digits = (source: string, field: string, map: (n: number) => number = n => n) => {
+    readers.push(match => {
+      fields[field] = map(Number(match));
+    });
+    return `(${source})`;
+  };
+  const oneOf = (list: string[], field?: string) => {
+    readers.push(match => {
+      if (field) fields[field] = list.indexOf(match);
+    });
+    return `(${list.map(escape).join('|')})`;
+  };
+  const names = (count: number, date: (index: number) => Date, options: Intl.DateTimeFormatOptions,
+    type: Intl.DateTimeFormatPartTypes) =>
+    Array.from({ length: count }, (_, index) => datePart(date(index), locale, options, type));
+  const months = (month: 'long' | 'short') => names(12, index => new Date(2000, index, 1), { month }, 'month');
+  const weekdays = (weekday: 'long' | 'short') => names(7, index => new Date(2000, 0, 2 + index), { weekday }, 'weekday');
+  const periods = () => names(2, index => new Date(2000, 0, 1, 1 + index * 12), { hour: 'numeric', hour12: true }, 'dayPeriod');
+  const offset = (source: string) => {
+    readers.push(match => {
+      const [hours, minutes] = [match.slice(1, 3), match.slice(-2)].map(Number);
+      fields.offset = (match[0] === '-' ? -1 : 1) * (hours * 60 + minutes);
+    });
+    return `(${source})`;
+  };
+
+  const toRegExp = (token: string, escaped?: string): string => {
+    if (escaped !== undefined) return escape(escaped);
+    switch (token) {
+      case 'YYYY': return digits('\\d{4}', 'year');
+      case 'YY': return digits('\\d{2}', 'year', n => n > 68 ? 1900 + n : 2000 + n);
+      case 'MMMM': return oneOf(months('long'), 'month');
+      case 'MMM': return oneOf(months('short'), 'month');
+      case 'MM': return digits('\\d{2}', 'month', n => n - 1);
+      case 'M': return digits('\\d{1,2}', 'month', n => n - 1);
+      case 'Do': return `${digits('\\d{1,2}', 'day')}(?:st|nd|rd|th)`;
+      case 'DD': return digits('\\d{2}', 'day');
+      case 'D': return digits('\\d{1,2}', 'day');
+      case 'dddd': return oneOf(weekdays('long'));
+      case 'ddd': return oneOf(weekdays('short'));
+      case 'dd': return oneOf(weekdays('short').map(name => name.slice(0, 2)));
+      case 'd': return oneOf(['0', '1', '2', '3', '4', '5', '6']);
+      case 'HH': return digits('\\d{2}', 'hour');
+      case 'H': return digits('\\d{1,2}', 'hour');
+      case 'hh': return digits('\\d{2}', 'hour12');
+      case 'h': return digits('\\d{1,2}', 'hour12');
+      case 'mm': return digits('\\d{2}', 'minute');
+      case 'm': return digits('\\d{1,2}', 'minute');
+      case 'ss': return digits('\\d{2}', 'second');
+      case 's': return digits('\\d{1,2}', 'second');
+      case 'SSS': return digits('\\d{3}', 'millisecond');
+      case 'A': return oneOf(periods(), 'pm');
+      case 'a': return oneOf(periods().map(period => period.toLowerCase()), 'pm');
+      case 'ZZ': return offset('[+-]\\d{4}');
+      case 'Z': return offset('[+-]\\d{2}:\\d{2}');
+      case 'X': return digits('-?\\d+', 'time', n => n * 1000);
+      default: return digits('-?\\d+', 'time');
+    }
+  };
+
+  const expanded = pattern.replace(/\[[^\]]*]|LTS|LT|LLLL|LLL|LL|L/g, token =>
+    LOCALIZED[token] ? localizedPattern(token, locale) : token);
+  let source = '';
+  let last = 0;
+  expanded.replace(TOKENS, (token: string, escaped: string | undefined, index: number) => {
+    source += escape(expanded.slice(last, index)) + toRegExp(token, escaped);
+    last = index + token.length;
+    return token;
+  });
+  source += escape(expanded.slice(last));
+
+  const match = new RegExp(`^${source}$`).exec(text);
+  if (!match) return new Date(NaN);
+  readers.forEach((read, index) => read(match[index + 1]));
+  if (fields.time !== undefined) return new Date(fields.time);
+
+  const now = new Date();
+  const hasDate = ['year', 'month', 'day'].some(field => fields[field] !== undefined);
+  const {
+    year = now.getFullYear(),
+    month = hasDate ? 0 : now.getMonth(),
+    day = hasDate ? 1 : now.getDate(),
+    minute = 0, second = 0, millisecond = 0
+  } = fields;
+  let { hour = 0 } = fields;
+  if (fields.hour12 !== undefined) {
+    if (fields.hour12 < 1 || fields.hour12 > 12) return new Date(NaN);
+    hour = fields.hour12 % 12 + (fields.pm === 1 ? 12 : 0);
+  }
+  if (month < 0 || month > 11 || day < 1 || day > new Date(year, month + 1, 0).getDate()
+    || hour > 23 || minute > 59 || second > 59) {
+    return new Date(NaN);
+  }
+  if (fields.offset === undefined) return new Date(year, month, day, hour, minute, second, millisecond);
+  return new Date(Date.UTC(year, month, day, hour, minute, second, millisecond) - fields.offset * 60000);
+}
+
+/**
+ * Lists the compact suffixes Intl writes in a locale, longest first.
+ *
+ * @param locale - The Intl locale
+ * @returns Each suffix with the power of ten it stands for
+ */
+function compactSuffixes(locale: string | undefined): [string, number][] {
+  const suffixes: Record<string, number> = {};
+  for (let exponent = 3; exponent <= 15; exponent++) {
+    const parts = new Intl.NumberFormat(locale, { notation: 'compact' } as Intl.NumberFormatOptions)
+      .formatToParts(10 ** exponent);
+    const suffix = parts.find(part => (part.type as string) === 'compact')?.value;
+    const integer = parts.filter(part => part.type === 'integer').map(part => part.value).join('');
+    if (suffix && !(suffix in suffixes)) suffixes[suffix] = exponent - integer.length + 1;
+  }
+  return Object.entries(suffixes).sort(([a], [b]) => b.length - a.length);
+}
+
+/** Units of the relative times, with the amount below which the next unit is not used. */
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number, number][] = [
+  ['second', 1000, 45],
+  ['minute', 60000, 45],
+  ['hour', 3600000, 22],
+  ['day', 86400000, 26],
+  ['month', 2629800000, 11],
+  ['year', 31557600000, Infinity]
+];
+
+/**
+ * A dependency-free backend built on `Intl.DateTimeFormat`, `Intl.NumberFormat`
+ * and `Intl.RelativeTimeFormat`, opt in with `setFormatBackend`. Every locale
+ * supported by the runtime works without registering it. Compact numbers use
+ * the Intl abbreviations, such as "1.50K" instead of "1.50k".
+ *
+ * @example
+ * ```ts
+ * setFormatBackend(intlBackend);
+ * setLang('de');
+ * formatValue(1500000, { format: 'number-compact' }); // "1,50 Mio."
+ * ```
+ */
+export const intlBackend: FormatBackend = {
+  toDate: value => {
+    if (value instanceof Date) return new Date(value.getTime());
+    if (typeof value === 'number') return new Date(value);
+    // moment and other date wrappers
+    if (value && typeof value.toDate === 'function') return intlBackend.toDate(value.toDate());
+    if (typeof value !== 'string') return new Date(NaN);
+    // like moment, read plain dates in local time and accept a space before the time
+    const [, year, month, day] = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim()) || [];
+    if (year) return new Date(Number(year), Number(month) - 1, Number(day));
+    return new Date(value.trim().replace(/^(\d{4}-\d{2}-\d{2}) /, '$1T'));
+  },
+  formatDate: formatDateTokens,
+  parseDate: parseDateTokens,
+  formatRelative: (date, withoutSuffix, lang) => {
+    const diff = date.getTime() - Date.now();
+    let unit = 0;
+    while (Math.abs(Math.round(diff / RELATIVE_UNITS[unit][1])) >= RELATIVE_UNITS[unit][2]) unit++;
+    const [name, size] = RELATIVE_UNITS[unit];
+    const amount = Math.round(diff / size);
+    if (withoutSuffix) {
+      return new Intl.NumberFormat(toLocale(lang), {
+        style: 'unit', unit: name, unitDisplay: 'long'
+      } as Intl.NumberFormatOptions).format(Math.abs(amount));
+    }
+    return new Intl.RelativeTimeFormat(toLocale(lang), { numeric: 'always' }).format(amount, name);
+  },
+  formatCompact: (value, pattern, lang) => {
+    const decimals = /\.([0[\]]*)/.exec(pattern)?.[1] ?? '';
+    const maximum = (decimals.match(/0/g) || []).length;
+    const optional = (/\[(0*)]/.exec(decimals)?.[1] ?? '').length;
+    return value.toLocaleString(toLocale(lang), {
+      notation: pattern.includes('a') ? 'compact' : 'standard',
+      useGrouping: pattern.includes(','),
+      minimumFractionDigits: maximum - optional,
+      maximumFractionDigits: maximum
+    } as Intl.NumberFormatOptions);
+  },
+  parseCompact: (text, pattern, lang) => {
+    const locale = toLocale(lang);
+    let rest = text.trim();
+    let exponent = 0;
+    if (pattern.includes('a')) {
+      // "1.2k" as well as the "1.2K" written by Intl
+      const lower = rest.toLowerCase();
+      const found = compactSuffixes(locale).find(([suffix]) => lower.endsWith(suffix.toLowerCase()));
+      if (found) {
+        rest = rest.slice(0, -found[0].length);
+        exponent = found[1];
+      }
+    }
+    const parts = new Intl.NumberFormat(locale).formatToParts(-12345.6);
+    const group = parts.find(part => part.type === 'group')?.value ?? ',';
+    const decimal = parts.find(part => part.type === 'decimal')?.value ?? '.';
+    let clean = rest.replace(/\s/g, '').replace(/\u2212/g, '-');
+    if (!/\s/.test(group)) clean = clean.split(group).join('');
+    clean = clean.replace(decimal, '.');
+    return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(clean) ? Number(`${clean}e${exponent}`) : NaN;
+  }
+};
@@ -0,0 +1,56 @@
+import moment from "moment";
+import numeral from "numeral";
+
+import type { FormatBackend } from "./format-backend";
+
+const COMPACT_SCALES: Record<string, number> = { thousand: 3, million: 6, billion: 9, trillion: 12 };
+
+const escape = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Reads a compact number written by numeral in a lang, unknown langs, the
+ * package default included, read as the numeral default locale.
+ *
+ * @param text - The text to read
+ * @param lang - The current lang
+ * @returns The number, NaN when the text is not a compact number
+ */
+function parseNumeral(text: string, lang: string): number {
+  const { delimiters, abbreviations } = numeral.locales[lang.toLowerCase()] || numeral.locales.en;
+  // numeral writes the abbreviations in lower case and only scales those
+  const scales = Object.entries(COMPACT_SCALES).reduce((all: Record<string, number>, [name, exponent]) => {
+    all[abbreviations[name as keyof typeof abbreviations]] = exponent;
+    return all;
+  }, {});
+  const units = Object.keys(scales).sort((a, b) => b.length - a.length).map(escape).join('|');
+  const pattern = new RegExp(`^([-+]?)(\\d[\\d${escape(delimiters.thousands)}]*)?(?:${escape(delimiters.decimal)}(\\d+))?\\s*(${units})?$`);
+  const [, sign, integer, fraction, unit] = pattern.exec(text.trim()) || [];
+  if (!integer && !fraction) return NaN;
+  const digits = `${sign}${(integer || '0').split(delimiters.thousands).join('')}.${fraction || '0'}`;
+  return Number(`${digits}e${unit ? scales[unit] : 0}`);
+}
+
+/**
+ * The default backend, built on moment and numeral. It also keeps the global moment locale in step with `setLang`, numeral
+ * locales must be registered by hand. Langs moment does not know use its
+ * global locale.
+ *
+ * @example
+ * ```ts
+ * formatValue(1500, { format: 'number-compact' }); // "1.50k"
+ * ```
+ */
+export const momentBackend: FormatBackend = {
+  toDate: value => moment(value).toDate(),
+  formatDate: (date, pattern, lang) => moment(date).locale(lang).format(pattern),
+  parseDate: (text, pattern, lang) => moment(text, pattern, lang, true).toDate(),
+  formatRelative: (date, withoutSuffix, lang) => moment(date).locale(lang).fromNow(withoutSuffix),
+  formatCompact: (value, pattern, lang) => {
+    numeral.locale(lang);
+    return numeral(value).format(pattern);
+  },
+  parseCompact: (text, pattern, lang) => parseNumeral(text, lang),
+  setLang: lang => {
+    moment.locale(lang);
+  }
+};
@@ -0,0 +1,176 @@
+import { getFormatBackend } from "./format-backend";
+import {
+  formatDate, formatNumberCompact, formatCurrency,
+  formatTime, formatDateTime, getLang
+} from "./i18n";
+import type { FormatConfig, FormatType } from "./format-value";
+
+/**
+ * Thrown by {@link parseValue} when a text cannot be read with its format.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   parseValue('12/31', { format: 'date' });
+ * } catch (error) {
+ *   if (error instanceof ParseValueError) console.warn(error.format, error.text);
+ * }
+ * ```
+ */
+export class ParseValueError extends Error {
+  /** The text that could not be parsed. */
+  text: string;
+  /** The format it was parsed with. */
+  format: string;
+
+  /**
+   * @param text - The text that could not be parsed
+   * @param format - The format it was parsed with
+   * @param reason - Why it could not be parsed
+   */
+  constructor(text: string, format: string, reason: string) {
+    super(`Cannot parse "${text}" as ${format}: ${reason}`);
+    this.name = 'ParseValueError';
+    this.text = text;
+    this.format = format;
+  }
+}
+
+/**
+ * Reads a text written in one format back into a value.
+ */
+export type Parser = (text: string, conf: FormatConfig, lang: string) => any;
+
+const parsers: Record<string, Parser> = {};
+
+/**
+ * Registers the parser of a format name, replacing the previous one if any.
+ *
+ * @param name - The format name used in {@link FormatConfig.format}
+ * @param parser - Receives the text, the configuration and the current lang
+ *
+ * @example
+ * ```ts
+ * registerParser('shout', text => text.replace(/!$/, '').toLowerCase());
+ * parseValue('HELLO!', { format: 'shout' }); // "hello"
+ * ```
+ */
+export function registerParser(name: FormatType, parser: Parser): void {
+  parsers[name] = parser;
+}
+
+/**
+ * Maps the package default lang to the runtime default locale.
+ *
+ * @param lang - The current lang
+ * @returns A locale for the Intl APIs
+ */
+const toLocale = (lang: string): string | undefined => lang === '_default' ? undefined : lang;
+
+/**
+ * Reads a number written with the group and decimal separators of a locale.
+ *
+ * @param text - The text to parse
+ * @param format - The format name, for the errors
+ * @param lang - The current lang
+ * @param affixes - Symbols written around the number, such as the currency
+ * @returns The number
+ */
+function parseLocaleNumber(text: string, format: string, lang: string, affixes: string[] = []): number {
+  const parts = new Intl.NumberFormat(toLocale(lang)).formatToParts(-12345.6);
+  const group = parts.find(part => part.type === 'group')?.value ?? ',';
+  const decimal = parts.find(part => part.type === 'decimal')?.value ?? '.';
+  let clean = affixes.filter(Boolean).reduce((rest, affix) => rest.split(affix).join(''), text);
+  clean = clean.replace(/\s/g, '').replace(/\u2212/g, '-');
+  // whitespace groups, e.g. in French, are already gone
+  if (!/\s/.test(group)) clean = clean.split(group).join('');
+  clean = clean.replace(decimal, '.');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(clean)) {
+    throw new ParseValueError(text, format, `expected a number with "${group}" groups and "${decimal}" decimals`);
+  }
+  return Number(clean);
+}
+
+/**
+ * Reads a date or time written in a moment-style pattern with the current backend.
+ *
+ * @param text - The text to parse
+ * @param format - The format name, for the errors
+ * @param pattern - The moment-style pattern
+ * @param lang - The current lang
+ * @returns The parsed date
+ */
+function parseDate(text: string, format: string, pattern: string, lang: string): Date {
+  const parsed = getFormatBackend().parseDate(text, pattern, lang);
+  if (isNaN(parsed.getTime())) throw new ParseValueError(text, format, `expected the format ${pattern}`);
+  return parsed;
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+registerParser('number', (text, conf, lang) => parseLocaleNumber(text, 'number', lang));
+
+registerParser('currency', (text, conf, lang) => {
+  const globalConf = (conf.formatConf || formatCurrency(conf.context)) as Intl.NumberFormatOptions;
+  const currency = conf.currency || globalConf.currency || 'USD';
+  const symbol = new Intl.NumberFormat(toLocale(lang), { style: 'currency', currency })
+    .formatToParts(1).find(part => part.type === 'currency')?.value;
+  return parseLocaleNumber(text, 'currency', lang, [currency, symbol as string]);
+});
+
+registerParser('percent', (text, conf, lang) => parseLocaleNumber(text, 'percent', lang, ['%']) / 100);
+
+const parseNumberCompact: Parser = (text, conf, lang) => {
+  const pattern = conf.formatConf as string || formatNumberCompact(conf.context);
+  const backend = getFormatBackend();
+  const value = backend.parseCompact(text, pattern, lang);
+  if (isNaN(value)) {
+    throw new ParseValueError(text, 'number-compact', `expected a number like ${backend.formatCompact(1200, pattern, lang)}`);
+  }
+  return value;
+};
+
+registerParser('number-compact', parseNumberCompact);
+registerParser('numbercompact', parseNumberCompact);
+
+registerParser('date', (text, conf, lang) => {
+  const date = parseDate(text, 'date', conf.formatConf as string || formatDate(conf.context), lang);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+});
+
+registerParser('time', (text, conf, lang) => {
+  const date = parseDate(text, 'time', conf.formatConf as string || formatTime(conf.context), lang);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+});
+
+const parseDateTime: Parser = (text, conf, lang) =>
+  parseDate(text, 'date-time', conf.formatConf as string || formatDateTime(conf.context), lang).toISOString();
+
+registerParser('date-time', parseDateTime);
+registerParser('datetime', parseDateTime);
+
+/**
+ * Reads a text written by {@link formatValue} back into a value, using the same configuration.
+ * Numbers, currencies and percents become numbers, dates become `YYYY-MM-DD`,
+ * times `HH:mm:ss` and date-times ISO strings.
+ *
+ * @param text - The text to parse
+ * @param conf - The configuration the text was formatted with
+ * @returns The parsed value, or the text if the format is not specified or has no parser
+ * @throws {ParseValueError} When the text does not match the format
+ *
+ * @example
+ * ```ts
+ * parseValue('1.2k', { format: 'number-compact' }); // 1200
+ * parseValue('12/31/2024', { format: 'date', formatConf: 'MM/DD/YYYY' }); // "2024-12-31"
+ * setLang('de');
+ * parseValue('1.234,5', { format: 'number' }); // 1234.5
+ * ```
+ */
+export default function parseValue(text: string, conf: FormatConfig): any {
+  if (!conf?.format) return text;
+  const parser = parsers[conf.format];
+  if (!parser) return text;
+  if (typeof text !== 'string' || !text.trim()) throw new ParseValueError(String(text), conf.format, 'the text is empty');
+  return parser(text, conf, getLang());
+}